@@ -1,4 +1,7 @@
 import { PrismaClient } from '@prisma/client';
+import { toLocalDateTime } from '../src/utils/timezone';
+import { attributeNames, buildSearchText } from '../src/utils/venueAttributes';
+import { deriveBusyStatus } from '../src/services/busyStatus';
 
 const prisma = new PrismaClient();
 
@@ -127,6 +130,57 @@ const venuesData = [
   }
 ];
 
+// Category tree; googleTypes map Google Places types onto it
+const categoriesData = [
+  {
+    name: 'Nightlife',
+    slug: 'nightlife',
+    children: [
+      {
+        name: 'Bars',
+        slug: 'bars',
+        googleTypes: ['bar', 'liquor_store'],
+        children: [{ name: 'Cocktail Bars', slug: 'cocktail-bars' }]
+      },
+      {
+        name: 'Nightclubs',
+        slug: 'nightclubs',
+        googleTypes: ['night_club'],
+        children: [{ name: 'Latin', slug: 'latin-nightclubs' }]
+      },
+      { name: 'Pubs', slug: 'pubs' }
+    ]
+  },
+  { name: 'Live Music', slug: 'live-music' },
+  {
+    name: 'Food & Drink',
+    slug: 'food-and-drink',
+    children: [
+      { name: 'Restaurants', slug: 'restaurants', googleTypes: ['restaurant', 'food', 'meal_takeaway'] },
+      { name: 'Cafes', slug: 'cafes', googleTypes: ['cafe'] }
+    ]
+  }
+];
+
+// First slug is the venue's primary category
+const venueCategorySlugs: Record<string, string[]> = {
+  '1': ['latin-nightclubs', 'bars'],
+  '2': ['cocktail-bars'],
+  '3': ['pubs', 'live-music']
+};
+
+type CategorySeed = { name: string; slug: string; googleTypes?: string[]; children?: CategorySeed[] };
+
+async function createCategories(categories: CategorySeed[], parentId: string | null, ids: Map<string, string>) {
+  for (const [index, { children, ...data }] of categories.entries()) {
+    const category = await prisma.category.create({
+      data: { ...data, parentId, sortOrder: index }
+    });
+    ids.set(category.slug, category.id);
+    await createCategories(children || [], category.id, ids);
+  }
+}
+
 async function main() {
   console.log('🌱 Starting database seed...');
 
@@ -137,14 +191,32 @@ async function main() {
   await prisma.event.deleteMany();
   await prisma.story.deleteMany();
   await prisma.venue.deleteMany();
+  await prisma.category.updateMany({ data: { parentId: null } });
+  await prisma.category.deleteMany();
   await prisma.refreshToken.deleteMany();
   await prisma.user.deleteMany();
 
+  // Create categories
+  console.log('🗂️  Creating categories...');
+  const categoryIds = new Map<string, string>();
+  await createCategories(categoriesData, null, categoryIds);
+
   // Create venues
   console.log('📍 Creating venues...');
   for (const venueData of venuesData) {
     const venue = await prisma.venue.create({
-      data: venueData
+      data: {
+        ...venueData,
+        musicGenreNames: attributeNames(venueData.musicGenres),
+        featureNames: attributeNames(venueData.features),
+        searchText: buildSearchText(venueData),
+        categories: {
+          create: (venueCategorySlugs[venueData.id] || []).map((slug, index) => ({
+            categoryId: categoryIds.get(slug)!,
+            isPrimary: index === 0
+          }))
+        }
+      }
     });
     console.log(`✅ Created venue: ${venue.name}`);
 
@@ -152,7 +224,7 @@ async function main() {
     const now = new Date();
     for (let i = 0; i < 24; i++) {
       const timestamp = new Date(now.getTime() - i * 60 * 60 * 1000); // Every hour for last 24 hours
-      const hour = timestamp.getHours();
+      const hour = toLocalDateTime(timestamp, venue.timezone).hour; // Venue-local hour
 
       // Generate realistic occupancy based on time of day
       let occupancyPercentage = 0;
@@ -172,11 +244,7 @@ async function main() {
 
       const occupancyCount = Math.floor((occupancyPercentage / 100) * venue.capacity);
 
-      let status: any = 'MODERATE';
-      if (occupancyPercentage >= 80) status = 'VERY_BUSY';
-      else if (occupancyPercentage >= 60) status = 'BUSY';
-      else if (occupancyPercentage >= 30) status = 'MODERATE';
-      else status = 'QUIET';
+      const status = deriveBusyStatus(occupancyPercentage);
 
       await prisma.busySnapshot.create({
         data: {
@@ -220,13 +288,39 @@ async function main() {
       lastName: 'Manager',
       passwordHash: managerPassword,
       role: 'VENUE_MANAGER',
-      venueIds: ['1', '2'], // Can manage Hey Chica and The Met
+      venueMemberships: {
+        // Owns Hey Chica and The Met
+        create: [
+          { venueId: '1', role: 'OWNER' },
+          { venueId: '2', role: 'OWNER' }
+        ]
+      },
       isEmailVerified: true,
       location: 'Brisbane, QLD'
     }
   });
   console.log(`✅ Created venue manager: ${managerUser.email}`);
 
+  // Create bartender (can post at Hey Chica, but not create deals or see analytics)
+  console.log('👤 Creating bartender...');
+  const bartenderPassword = await bcrypt.hash('bartender123', 12);
+
+  const bartenderUser = await prisma.user.create({
+    data: {
+      email: 'bartender@vibe.app',
+      firstName: 'Demo',
+      lastName: 'Bartender',
+      passwordHash: bartenderPassword,
+      role: 'USER',
+      venueMemberships: {
+        create: [{ venueId: '1', role: 'BARTENDER' }]
+      },
+      isEmailVerified: true,
+      location: 'Brisbane, QLD'
+    }
+  });
+  console.log(`✅ Created bartender: ${bartenderUser.email}`);
+
   // Create regular user
   console.log('👤 Creating regular user...');
   const userPassword = await bcrypt.hash('user123', 12);
@@ -293,6 +387,7 @@ async function main() {
   console.log('\n📋 Test accounts:');
   console.log('Admin: admin@vibe.app / admin123');
   console.log('Manager: manager@vibe.app / manager123');
+  console.log('Bartender: bartender@vibe.app / bartender123');
   console.log('User: user@vibe.app / user123');
 }
 
@@ -0,0 +1,71 @@
+import { PrismaClient } from '@prisma/client';
+import { scheduler } from './scheduler';
+import { VenueLifecycleService } from '../services/venueLifecycle';
+import { PopularTimesService } from '../services/popularTimes';
+
+const prisma = new PrismaClient();
+const venueLifecycleService = new VenueLifecycleService();
+const popularTimesService = new PopularTimesService();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const registerJobs = () => {
+  scheduler.register({
+    name: 'venue-purge',
+    intervalMs: 24 * HOUR_MS,
+    run: async () => {
+      const purgedIds = await venueLifecycleService.purgeExpired();
+      if (purgedIds.length > 0) {
+        await prisma.auditLog.createMany({
+          data: purgedIds.map(venueId => ({
+            action: 'VENUE_PURGED',
+            resource: 'venues',
+            resourceId: venueId
+          }))
+        });
+        console.log(`Purged ${purgedIds.length} archived venues`);
+      }
+    }
+  });
+
+  // Refreshes venues whose popular times are due (see POPULAR_TIMES_SYNC_DAYS)
+  scheduler.register({
+    name: 'popular-times-sync',
+    intervalMs: HOUR_MS,
+    runOnStart: true,
+    run: async () => {
+      const { serp, estimated } = await popularTimesService.syncDue();
+      if (serp + estimated > 0) {
+        console.log(`Synced popular times for ${serp + estimated} venues (${estimated} estimated)`);
+      }
+    }
+  });
+
+  // Busy status for venues without a door counter, at the top of each hour
+  // rather than whenever the process happened to start
+  scheduler.register({
+    name: 'popular-times-snapshots',
+    intervalMs: HOUR_MS,
+    runOnStart: true,
+    alignToInterval: true,
+    run: async () => {
+      await popularTimesService.recordSnapshots();
+    }
+  });
+
+  // Needs Google Places; without a key there's nothing to check against
+  if (process.env.GOOGLE_PLACES_API_KEY) {
+    scheduler.register({
+      name: 'venue-status-check',
+      intervalMs: parseInt(process.env.VENUE_STATUS_CHECK_HOURS || '24') * HOUR_MS,
+      run: async () => {
+        const flagged = await venueLifecycleService.checkBusinessStatuses();
+        if (flagged > 0) {
+          console.log(`Flagged ${flagged} venues reported as permanently closed`);
+        }
+      }
+    });
+  }
+};
+
+export { scheduler };
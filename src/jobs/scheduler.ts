@@ -0,0 +1,107 @@
+// Minimal in-process job runner. Each job runs on a fixed interval and never
+// overlaps with itself. Runs on every instance, so jobs must be safe to run
+// concurrently across instances (claim work with conditional updates).
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  runOnStart?: boolean;
+  // Run on multiples of intervalMs since the epoch (e.g. at the top of every
+  // UTC hour) instead of every intervalMs from start
+  alignToInterval?: boolean;
+}
+
+interface JobState {
+  job: ScheduledJob;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+export class JobScheduler {
+  private jobs = new Map<string, JobState>();
+
+  register(job: ScheduledJob) {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, { job, running: false });
+  }
+
+  start() {
+    for (const state of this.jobs.values()) {
+      if (state.job.alignToInterval) {
+        this.scheduleAligned(state);
+      } else {
+        state.timer = setInterval(() => this.execute(state), state.job.intervalMs);
+        // Don't keep the process alive just for jobs
+        state.timer.unref();
+      }
+      if (state.job.runOnStart) {
+        setImmediate(() => this.execute(state));
+      }
+    }
+  }
+
+  stop() {
+    for (const state of this.jobs.values()) {
+      if (state.timer) {
+        // Clears aligned jobs' timeouts too
+        clearInterval(state.timer);
+        state.timer = undefined;
+      }
+    }
+  }
+
+  // Run a job now, e.g. from an admin endpoint. Returns false if it's already running.
+  async runNow(name: string): Promise<boolean> {
+    const state = this.jobs.get(name);
+    if (!state) {
+      throw new Error(`Unknown job ${name}`);
+    }
+    return this.execute(state);
+  }
+
+  status() {
+    return Array.from(this.jobs.values()).map(state => ({
+      name: state.job.name,
+      intervalMs: state.job.intervalMs,
+      running: state.running,
+      lastRunAt: state.lastRunAt ?? null,
+      lastError: state.lastError ?? null
+    }));
+  }
+
+  // Timers are rescheduled from the clock each run, so they don't drift off the boundary
+  private scheduleAligned(state: JobState) {
+    const { intervalMs } = state.job;
+    state.timer = setTimeout(() => {
+      this.scheduleAligned(state);
+      this.execute(state);
+    }, intervalMs - (Date.now() % intervalMs));
+    state.timer.unref();
+  }
+
+  private async execute(state: JobState): Promise<boolean> {
+    if (state.running) {
+      return false;
+    }
+
+    state.running = true;
+    try {
+      await state.job.run();
+      state.lastError = undefined;
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${state.job.name} failed:`, error);
+    } finally {
+      state.running = false;
+      state.lastRunAt = new Date();
+    }
+    return true;
+  }
+}
+
+export const scheduler = new JobScheduler();
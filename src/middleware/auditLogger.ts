@@ -13,7 +13,14 @@ const AUDITABLE_ACTIONS = [
 const SENSITIVE_ENDPOINTS = [
   '/auth',
   '/venues',
-  '/users'
+  '/users',
+  '/admin'
+];
+
+// High-volume endpoints whose requests aren't worth an audit row each;
+// occupancy readings are kept as busy snapshots
+const UNAUDITED_ENDPOINTS = [
+  '/occupancy'
 ];
 
 export const auditLogger = async (
@@ -22,8 +29,8 @@ export const auditLogger = async (
   next: NextFunction
 ) => {
   // Only audit certain actions and endpoints
-  const shouldAudit = AUDITABLE_ACTIONS.includes(req.method) ||
-    SENSITIVE_ENDPOINTS.some(endpoint => req.path.startsWith(endpoint));
+  const shouldAudit = !UNAUDITED_ENDPOINTS.some(endpoint => req.path.startsWith(endpoint)) &&
+    (AUDITABLE_ACTIONS.includes(req.method) || SENSITIVE_ENDPOINTS.some(endpoint => req.path.startsWith(endpoint)));
 
   if (!shouldAudit) {
     return next();
@@ -81,6 +88,35 @@ export const auditLogger = async (
   });
 };
 
+export interface AuditEvent {
+  userId?: string | null;
+  action: string;
+  resource: string;
+  resourceId?: string | null;
+  metadata?: Record<string, any>;
+}
+
+// Record an explicit audit event for security-relevant actions that need
+// more context than the generic per-request entry
+export const logAuditEvent = async (req: Request, event: AuditEvent) => {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: event.userId ?? null,
+        action: event.action,
+        resource: event.resource,
+        resourceId: event.resourceId ?? null,
+        metadata: event.metadata,
+        ipAddress: req.ip || req.connection.remoteAddress,
+        userAgent: req.get('User-Agent')
+      }
+    });
+  } catch (error) {
+    // Don't fail the request if audit logging fails
+    console.error('Failed to create audit log:', error);
+  }
+};
+
 function extractResourceFromPath(path: string): string {
   const segments = path.split('/').filter(Boolean);
   if (segments.length === 0) return 'unknown';
@@ -109,9 +145,16 @@ function sanitizeRequestBody(body: any): any {
 
   const sensitiveFields = [
     'password',
+    'currentPassword',
+    'newPassword',
     'passwordHash',
     'token',
     'refreshToken',
+    'challengeToken',
+    'idToken',
+    'nonce',
+    'code',
+    'recoveryCode',
     'secret',
     'apiKey'
   ];
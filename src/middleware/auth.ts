@@ -1,16 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { AccessTokenClaims, TokenService } from '../services/tokenService';
+import { hasPermission, VenuePermission } from '../utils/venuePermissions';
 
 const prisma = new PrismaClient();
+const tokenService = new TokenService();
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
     role: string;
-    venueIds: string[];
+    isEmailVerified: boolean;
+    twoFactorEnabled: boolean;
   };
+  token?: AccessTokenClaims;
 }
 
 export const authMiddleware = async (
@@ -39,7 +44,15 @@ export const authMiddleware = async (
     }
 
     // Verify JWT token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
+    const decoded = jwt.verify(token, process.env.JWT_SECRET) as AccessTokenClaims;
+
+    // Single-purpose tokens (e.g. email verification links) are not access tokens
+    if ('purpose' in decoded) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid token'
+      });
+    }
 
     // Get user from database to ensure they still exist and get latest data
     const user = await prisma.user.findUnique({
@@ -48,8 +61,10 @@ export const authMiddleware = async (
         id: true,
         email: true,
         role: true,
-        venueIds: true,
-        lastActiveAt: true
+        isEmailVerified: true,
+        totpEnabledAt: true,
+        lastActiveAt: true,
+        tokenVersion: true
       }
     });
 
@@ -60,10 +75,33 @@ export const authMiddleware = async (
       });
     }
 
-    // Update last active time
+    // Reject tokens issued before the user signed out everywhere
+    if ((decoded.ver ?? 0) !== user.tokenVersion) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Token revoked'
+      });
+    }
+
+    // Reject tokens whose session was signed out or revoked from another device.
+    // Every access token belongs to a session; tokens without one are rejected.
+    if (!decoded.sid || !await tokenService.isSessionActive(decoded.sid)) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Session revoked'
+      });
+    }
+
+    // Update last active time for the user and the device session
+    const now = new Date();
     await prisma.user.update({
       where: { id: user.id },
-      data: { lastActiveAt: new Date() }
+      data: { lastActiveAt: now }
+    });
+
+    await prisma.session.update({
+      where: { id: decoded.sid },
+      data: { lastUsedAt: now }
     });
 
     // Attach user to request
@@ -71,8 +109,10 @@ export const authMiddleware = async (
       id: user.id,
       email: user.email,
       role: user.role,
-      venueIds: user.venueIds
+      isEmailVerified: user.isEmailVerified,
+      twoFactorEnabled: user.totpEnabledAt !== null
     };
+    req.token = decoded;
 
     next();
   } catch (error) {
@@ -98,7 +138,46 @@ export const authMiddleware = async (
   }
 };
 
-export const requireRole = (allowedRoles: string[]) => {
+// EventSource can't set headers, so live streams may pass the access token as
+// ?access_token=. It's moved to the Authorization header for authMiddleware and
+// dropped from the query and URLs so it isn't audit or error logged. Only mount
+// this on streams.
+export const queryTokenMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.query.access_token;
+  if (typeof token === 'string' && !req.headers.authorization) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  delete req.query.access_token;
+  req.url = withoutAccessToken(req.url);
+  req.originalUrl = withoutAccessToken(req.originalUrl);
+  next();
+};
+
+const withoutAccessToken = (url: string): string => {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) {
+    return url;
+  }
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  params.delete('access_token');
+  const query = params.toString();
+  return query ? `${url.slice(0, queryStart)}?${query}` : url.slice(0, queryStart);
+};
+
+// Roles that must have 2FA enabled to pass requireRole, e.g. "VENUE_MANAGER,ADMIN"
+export const isTwoFactorRequiredForRole = (role: string): boolean =>
+  (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map(r => r.trim())
+    .includes(role);
+
+export interface RequireRoleOptions {
+  // Overrides TWO_FACTOR_REQUIRED_ROLES for this route
+  requireTwoFactor?: boolean;
+}
+
+export const requireRole = (allowedRoles: string[], options: RequireRoleOptions = {}) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
@@ -114,12 +193,56 @@ export const requireRole = (allowedRoles: string[]) => {
       });
     }
 
+    const requireTwoFactor = options.requireTwoFactor ?? isTwoFactorRequiredForRole(req.user.role);
+    if (requireTwoFactor && !req.user.twoFactorEnabled) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Two-factor authentication required'
+      });
+    }
+
     next();
   };
 };
 
-export const requireVenueAccess = (venueIdParam: string = 'venueId') => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+export const requireVerifiedEmail = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Authentication required'
+    });
+  }
+
+  if (!req.user.isEmailVerified) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Email address must be verified'
+    });
+  }
+
+  next();
+};
+
+// Check whether a user may perform an action at a venue. Admins may do
+// anything; everyone else needs a membership granting the permission.
+export const hasVenuePermission = async (
+  user: { id: string; role: string },
+  venueId: string,
+  permission: VenuePermission
+): Promise<boolean> => {
+  if (user.role === 'ADMIN') {
+    return true;
+  }
+
+  const membership = await prisma.venueMembership.findUnique({
+    where: { userId_venueId: { userId: user.id, venueId } }
+  });
+
+  return hasPermission(membership, permission);
+};
+
+export const requireVenuePermission = (permission: VenuePermission, venueIdParam: string = 'id') => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
         error: 'Unauthorized',
@@ -127,30 +250,33 @@ export const requireVenueAccess = (venueIdParam: string = 'venueId') => {
       });
     }
 
-    // Admins have access to all venues
-    if (req.user.role === 'ADMIN') {
-      return next();
-    }
+    const venueId = req.params[venueIdParam];
 
-    // Venue managers can only access their assigned venues
-    if (req.user.role === 'VENUE_MANAGER') {
-      const venueId = req.params[venueIdParam];
+    if (!venueId) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: 'Venue ID required'
+      });
+    }
 
-      if (!venueId) {
-        return res.status(400).json({
-          error: 'Bad Request',
-          message: 'Venue ID required'
-        });
-      }
+    if (isTwoFactorRequiredForRole(req.user.role) && !req.user.twoFactorEnabled) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Two-factor authentication required'
+      });
+    }
 
-      if (!req.user.venueIds.includes(venueId)) {
+    try {
+      if (!await hasVenuePermission(req.user, venueId, permission)) {
         return res.status(403).json({
           error: 'Forbidden',
-          message: 'No access to this venue'
+          message: 'Insufficient permissions for this venue'
         });
       }
+    } catch (error) {
+      return next(error);
     }
 
     next();
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { OccupancyService } from '../services/occupancy';
+import { countFailedDeviceAuth } from './rateLimiting';
+
+const occupancyService = new OccupancyService();
+
+export interface DeviceRequest extends Request {
+  device?: {
+    id: string;
+    venueId: string;
+  };
+}
+
+// Authenticates a counting device by the key issued from POST /venues/:id/devices
+export const deviceAuthMiddleware = async (
+  req: DeviceRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      await countFailedDeviceAuth(req);
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'No device key provided'
+      });
+    }
+
+    const device = await occupancyService.authenticate(authHeader.substring(7));
+
+    if (!device) {
+      await countFailedDeviceAuth(req);
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid or revoked device key'
+      });
+    }
+
+    req.device = device;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,10 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { DeviceRequest } from './deviceAuth';
 
 // Different rate limiters for different endpoints
+// Per-IP ceiling for auth endpoints. Kept loose enough for a venue's shared
+// Wi-Fi; brute force against a single account is handled by LoginThrottleService.
 const authLimiter = new RateLimiterMemory({
   keyPrefix: 'auth',
-  points: 5, // Number of requests
+  points: parseInt(process.env.AUTH_RATE_LIMIT_MAX_REQUESTS || '30'), // Number of requests
   duration: 900, // Per 15 minutes
   blockDuration: 900, // Block for 15 minutes if limit exceeded
 });
@@ -16,6 +19,13 @@ const apiLimiter = new RateLimiterMemory({
   blockDuration: 60, // Block for 1 minute if limit exceeded
 });
 
+// Per device rather than per IP: a venue's counters often share one connection
+const deviceLimiter = new RateLimiterMemory({
+  keyPrefix: 'device',
+  points: parseInt(process.env.DEVICE_RATE_LIMIT_PER_MINUTE || '120'),
+  duration: 60,
+});
+
 const createAccountLimiter = new RateLimiterMemory({
   keyPrefix: 'create_account',
   points: 3, // Number of requests
@@ -23,16 +33,43 @@ const createAccountLimiter = new RateLimiterMemory({
   blockDuration: 3600, // Block for 1 hour
 });
 
-export const rateLimitMiddleware = (req: Request, res: Response, next: NextFunction) => {
-  const getClientKey = (req: Request): string => {
-    // Use IP address as the key, but in production you might want to use user ID for authenticated requests
-    return req.ip || req.connection.remoteAddress || 'unknown';
-  };
+const getClientKey = (req: Request): string => {
+  // Use IP address as the key, but in production you might want to use user ID for authenticated requests
+  return req.ip || req.connection.remoteAddress || 'unknown';
+};
 
+export const rateLimitMiddleware = (req: Request, res: Response, next: NextFunction) => {
   const key = getClientKey(req);
 
+  // Occupancy devices are limited by deviceRateLimitMiddleware once authenticated.
+  // Requests that fail device auth count against the IP (see countFailedDeviceAuth),
+  // so an IP that has used up its API limit is turned away before its key is checked.
+  if (req.path.startsWith('/occupancy')) {
+    apiLimiter.get(key)
+      .then((limit) => {
+        if (!limit || limit.consumedPoints <= apiLimiter.points) {
+          return next();
+        }
+        const secs = Math.round(limit.msBeforeNext / 1000) || 1;
+        res.set('Retry-After', String(secs));
+        return res.status(429).json({
+          error: 'Too Many Requests',
+          message: 'Too many failed device authentications. Please try again later.',
+          retryAfter: secs
+        });
+      })
+      .catch(next);
+    return;
+  }
+
   // Apply different rate limits based on the endpoint
-  if (req.path.startsWith('/auth/signin') || req.path.startsWith('/auth/signout')) {
+  if (
+    req.path.startsWith('/auth/signin') ||
+    req.path.startsWith('/auth/oauth') ||
+    req.path.startsWith('/auth/signout') ||
+    req.path.startsWith('/auth/verify-email/resend') ||
+    req.path.startsWith('/auth/password/forgot')
+  ) {
     authLimiter.consume(key)
       .then(() => {
         next();
@@ -76,4 +113,27 @@ export const rateLimitMiddleware = (req: Request, res: Response, next: NextFunct
         });
       });
   }
-};
\ No newline at end of file
+};
+
+// Called by deviceAuthMiddleware when a request has no valid device key
+export const countFailedDeviceAuth = async (req: Request): Promise<void> => {
+  // Over the limit is fine here; rateLimitMiddleware rejects the IP's next request
+  await apiLimiter.consume(getClientKey(req)).catch(() => undefined);
+};
+
+// Runs after deviceAuthMiddleware
+export const deviceRateLimitMiddleware = (req: DeviceRequest, res: Response, next: NextFunction) => {
+  deviceLimiter.consume(req.device!.id)
+    .then(() => {
+      next();
+    })
+    .catch((rejRes) => {
+      const secs = Math.round(rejRes.msBeforeNext / 1000) || 1;
+      res.set('Retry-After', String(secs));
+      return res.status(429).json({
+        error: 'Too Many Requests',
+        message: 'Device rate limit exceeded. Send readings in batches.',
+        retryAfter: secs
+      });
+    });
+};
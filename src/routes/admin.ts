@@ -0,0 +1,529 @@
+import express from 'express';
+import { PrismaClient, Prisma, VenueClaimStatus } from '@prisma/client';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logAuditEvent } from '../middleware/auditLogger';
+import { LoginThrottleService } from '../services/loginThrottle';
+import { MailerService } from '../services/mailer';
+import { OpeningHoursService } from '../services/openingHours';
+import { CategoryService, slugify } from '../services/categories';
+import { VenueLifecycleService } from '../services/venueLifecycle';
+import { VENUE_FILE_FORMATS, VenueFileFormat, VenueImportService } from '../services/venueImport';
+import { PopularTimesService } from '../services/popularTimes';
+import { scheduler } from '../jobs';
+import {
+  validateCreateCategory,
+  validateCreatePublicHoliday,
+  validateReviewVenueClaim,
+  validateUpdateCategory
+} from '../utils/validation';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const loginThrottle = new LoginThrottleService();
+const mailer = new MailerService();
+const openingHoursService = new OpeningHoursService();
+const categoryService = new CategoryService();
+const venueLifecycleService = new VenueLifecycleService();
+const venueImportService = new VenueImportService();
+const popularTimesService = new PopularTimesService();
+
+const CLAIM_STATUSES: VenueClaimStatus[] = ['PENDING', 'APPROVED', 'REJECTED'];
+const VENUE_STATES = ['archived', 'flagged'];
+
+// GET /admin/lockouts - List emails currently locked out of sign in
+router.get('/lockouts', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const lockouts = await loginThrottle.listLocked();
+
+  res.json({
+    lockouts: lockouts.map(lockout => ({
+      email: lockout.email,
+      lockedUntil: lockout.lockedUntil,
+      lockCount: lockout.lockCount,
+      lastFailedAt: lockout.lastFailedAt
+    }))
+  });
+}));
+
+// DELETE /admin/lockouts/:email - Unlock an account and clear its failed attempts
+router.delete('/lockouts/:email', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const email = req.params.email.toLowerCase();
+
+  const unlocked = await loginThrottle.unlock(email);
+  if (!unlocked) {
+    throw createError('No lockout found for this email', 404);
+  }
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'ACCOUNT_UNLOCKED',
+    resource: 'auth',
+    metadata: { email }
+  });
+
+  res.json({
+    message: 'Account unlocked successfully'
+  });
+}));
+
+// GET /admin/venue-claims - Venue claim review queue
+router.get('/venue-claims', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { status = 'PENDING', page = 1, limit = 20 } = req.query;
+
+  if (!CLAIM_STATUSES.includes(status as VenueClaimStatus)) {
+    throw createError(`status must be one of ${CLAIM_STATUSES.join(', ')}`, 400);
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+  const where = { status: status as VenueClaimStatus };
+
+  const [claims, total] = await Promise.all([
+    prisma.venueClaim.findMany({
+      where,
+      include: {
+        venue: {
+          select: { id: true, name: true, location: true }
+        },
+        user: {
+          select: { id: true, email: true, firstName: true, lastName: true, isEmailVerified: true }
+        },
+        reviewedBy: {
+          select: { id: true, firstName: true, lastName: true }
+        }
+      },
+      // Oldest first, so the queue is worked in order
+      orderBy: { createdAt: 'asc' },
+      skip,
+      take: Number(limit)
+    }),
+    prisma.venueClaim.count({ where })
+  ]);
+
+  res.json({
+    claims,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    }
+  });
+}));
+
+// POST /admin/venue-claims/:claimId/approve - Approve a claim and make the claimant an owner
+router.post('/venue-claims/:claimId/approve', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateReviewVenueClaim(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  // The claim is only approved if the claimant is made owner too
+  const claim = await prisma.$transaction(async tx => {
+    const approved = await reviewClaim(tx, req.params.claimId, req.user!.id, 'APPROVED', value.note);
+
+    await tx.venueMembership.upsert({
+      where: { userId_venueId: { userId: approved.userId, venueId: approved.venueId } },
+      update: { role: 'OWNER' },
+      create: { userId: approved.userId, venueId: approved.venueId, role: 'OWNER' }
+    });
+
+    return approved;
+  });
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'VENUE_CLAIM_APPROVED',
+    resource: 'venues',
+    resourceId: claim.venueId,
+    metadata: { claimId: claim.id, claimantId: claim.userId }
+  });
+
+  await notifyClaimant(claim, true);
+
+  res.json({
+    message: 'Claim approved successfully',
+    claim
+  });
+}));
+
+// POST /admin/venue-claims/:claimId/reject - Reject a claim
+router.post('/venue-claims/:claimId/reject', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateReviewVenueClaim(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const claim = await reviewClaim(prisma, req.params.claimId, req.user!.id, 'REJECTED', value.note);
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'VENUE_CLAIM_REJECTED',
+    resource: 'venues',
+    resourceId: claim.venueId,
+    metadata: { claimId: claim.id, claimantId: claim.userId }
+  });
+
+  await notifyClaimant(claim, false);
+
+  res.json({
+    message: 'Claim rejected successfully',
+    claim
+  });
+}));
+
+// GET /admin/public-holidays - List public holidays
+router.get('/public-holidays', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { year } = req.query;
+
+  const where = year
+    ? { date: { gte: new Date(`${Number(year)}-01-01`), lt: new Date(`${Number(year) + 1}-01-01`) } }
+    : {};
+
+  const holidays = await prisma.publicHoliday.findMany({
+    where,
+    orderBy: { date: 'asc' }
+  });
+
+  res.json({
+    holidays: holidays.map(holiday => ({
+      ...holiday,
+      date: holiday.date.toISOString().slice(0, 10)
+    }))
+  });
+}));
+
+// POST /admin/public-holidays - Add a public holiday
+router.post('/public-holidays', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateCreatePublicHoliday(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const date = new Date(value.date);
+  if (isNaN(date.getTime())) {
+    throw createError('date must be a YYYY-MM-DD date', 400);
+  }
+
+  const holiday = await prisma.publicHoliday.upsert({
+    where: { date },
+    update: { name: value.name },
+    create: { date, name: value.name }
+  });
+  openingHoursService.clearHolidayCache();
+
+  res.status(201).json({
+    message: 'Public holiday saved successfully',
+    holiday: { ...holiday, date: value.date }
+  });
+}));
+
+// DELETE /admin/public-holidays/:id - Remove a public holiday
+router.delete('/public-holidays/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { count } = await prisma.publicHoliday.deleteMany({
+    where: { id: req.params.id }
+  });
+
+  if (count === 0) {
+    throw createError('Public holiday not found', 404);
+  }
+  openingHoursService.clearHolidayCache();
+
+  res.json({
+    message: 'Public holiday removed successfully'
+  });
+}));
+
+// POST /admin/categories - Add a category to the tree
+router.post('/categories', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateCreateCategory(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await categoryService.assertValidParent(null, value.parentId || null);
+
+  const category = await prisma.category.create({
+    data: {
+      ...value,
+      slug: value.slug || slugify(value.name)
+    }
+  });
+
+  res.status(201).json({
+    message: 'Category created successfully',
+    category
+  });
+}));
+
+// PUT /admin/categories/:id - Rename, re-slug or move a category
+router.put('/categories/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { error, value } = validateUpdateCategory(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const existing = await prisma.category.findUnique({
+    where: { id }
+  });
+
+  if (!existing) {
+    throw createError('Category not found', 404);
+  }
+
+  if (value.parentId !== undefined) {
+    await categoryService.assertValidParent(id, value.parentId);
+  }
+
+  const category = await prisma.category.update({
+    where: { id },
+    data: value
+  });
+
+  res.json({
+    message: 'Category updated successfully',
+    category
+  });
+}));
+
+// DELETE /admin/categories/:id - Remove a leaf category; its venue links go with it
+router.delete('/categories/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const category = await prisma.category.findUnique({
+    where: { id },
+    include: { _count: { select: { children: true } } }
+  });
+
+  if (!category) {
+    throw createError('Category not found', 404);
+  }
+
+  if (category._count.children > 0) {
+    throw createError('Move or delete this category\'s subcategories first', 409);
+  }
+
+  await prisma.category.delete({
+    where: { id }
+  });
+
+  res.json({
+    message: 'Category deleted successfully'
+  });
+}));
+
+// GET /admin/venues - Archived venues awaiting purge, or venues flagged for review
+router.get('/venues', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { state = 'archived', page = 1, limit = 20 } = req.query;
+
+  if (!VENUE_STATES.includes(state as string)) {
+    throw createError(`state must be one of ${VENUE_STATES.join(', ')}`, 400);
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+  const where: Prisma.VenueWhereInput = state === 'archived'
+    ? { archivedAt: { not: null } }
+    : { flaggedAt: { not: null }, archivedAt: null };
+
+  const [venues, total] = await Promise.all([
+    prisma.venue.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        location: true,
+        placeId: true,
+        businessStatus: true,
+        archivedAt: true,
+        archivedReason: true,
+        archivedById: true,
+        flaggedAt: true,
+        flagReason: true
+      },
+      orderBy: state === 'archived' ? { archivedAt: 'asc' } : { flaggedAt: 'asc' },
+      skip,
+      take: Number(limit)
+    }),
+    prisma.venue.count({ where })
+  ]);
+
+  res.json({
+    venues: venues.map(venue => ({
+      ...venue,
+      purgeAfter: venue.archivedAt ? venueLifecycleService.purgeDateFor(venue.archivedAt) : null
+    })),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    }
+  });
+}));
+
+// POST /admin/venues/import - Bulk create/update venues from JSON or CSV (text/csv body)
+router.post('/venues/import',
+  express.text({ type: 'text/csv', limit: '10mb' }),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const format = fileFormat(req.query.format, req.is('text/csv') ? 'csv' : 'json');
+    const dryRun = req.query.dryRun === 'true';
+
+    const rows = venueImportService.readRows(format, req.body);
+    const report = await venueImportService.importRows(rows, {
+      dryRun,
+      author: { source: 'IMPORT', userId: req.user!.id }
+    });
+
+    if (!dryRun) {
+      await logAuditEvent(req, {
+        userId: req.user!.id,
+        action: 'VENUES_IMPORTED',
+        resource: 'venues',
+        metadata: { format, summary: report.summary }
+      });
+    }
+
+    res.json(report);
+  })
+);
+
+// GET /admin/venues/export - All active venues as JSON or CSV, in the import format
+router.get('/venues/export', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const format = fileFormat(req.query.format, 'json');
+  const body = await venueImportService.exportVenues(format);
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.type(format === 'csv' ? 'text/csv' : 'application/json');
+  res.attachment(`venues-${date}.${format}`);
+  res.send(body);
+}));
+
+// DELETE /admin/venues/:id/flag - Dismiss a review flag
+router.delete('/venues/:id/flag', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  await venueLifecycleService.clearFlag(id);
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'VENUE_FLAG_CLEARED',
+    resource: 'venues',
+    resourceId: id
+  });
+
+  res.json({
+    message: 'Venue flag cleared successfully'
+  });
+}));
+
+// GET /admin/venues/:id/popular-times - Last popular-times sync for a venue
+router.get('/venues/:id/popular-times', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const popularTimes = await popularTimesService.getStatus(req.params.id);
+
+  if (!popularTimes) {
+    throw createError('This venue has not been synced yet', 404);
+  }
+
+  res.json({
+    popularTimes
+  });
+}));
+
+// POST /admin/venues/:id/popular-times/sync - Re-sync a venue's popular times from SerpAPI now
+router.post('/venues/:id/popular-times/sync', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const popularTimes = await popularTimesService.resyncVenue(req.params.id);
+
+  res.json({
+    message: popularTimes.lastError ? `Synced with fallback: ${popularTimes.lastError}` : 'Popular times synced successfully',
+    popularTimes
+  });
+}));
+
+// GET /admin/jobs - Background jobs and their last run
+router.get('/jobs', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json({
+    jobs: scheduler.status()
+  });
+}));
+
+// POST /admin/jobs/:name/run - Start a background job now
+router.post('/jobs/:name/run', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const job = scheduler.status().find(candidate => candidate.name === req.params.name);
+
+  if (!job) {
+    throw createError('Job not found', 404);
+  }
+  if (job.running) {
+    throw createError('Job is already running', 409);
+  }
+
+  // Runs in the background; errors show up in GET /admin/jobs
+  void scheduler.runNow(job.name);
+
+  res.status(202).json({
+    message: 'Job started'
+  });
+}));
+
+function fileFormat(value: unknown, fallback: VenueFileFormat): VenueFileFormat {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!VENUE_FILE_FORMATS.includes(value as VenueFileFormat)) {
+    throw createError(`format must be one of ${VENUE_FILE_FORMATS.join(', ')}`, 400);
+  }
+  return value as VenueFileFormat;
+}
+
+// Moves a pending claim to its final status. Only one reviewer can win.
+async function reviewClaim(
+  db: Prisma.TransactionClient,
+  claimId: string,
+  reviewerId: string,
+  status: VenueClaimStatus,
+  note?: string
+) {
+  const { count } = await db.venueClaim.updateMany({
+    where: { id: claimId, status: 'PENDING' },
+    data: {
+      status,
+      reviewedById: reviewerId,
+      reviewNote: note,
+      reviewedAt: new Date()
+    }
+  });
+
+  if (count === 0) {
+    const exists = await db.venueClaim.count({ where: { id: claimId } });
+    throw exists
+      ? createError('Claim has already been reviewed', 409)
+      : createError('Claim not found', 404);
+  }
+
+  return db.venueClaim.findUniqueOrThrow({
+    where: { id: claimId },
+    include: {
+      venue: { select: { id: true, name: true } },
+      user: { select: { id: true, email: true, firstName: true } }
+    }
+  });
+}
+
+async function notifyClaimant(
+  claim: { venue: { name: string }; user: { email: string; firstName: string }; reviewNote: string | null },
+  approved: boolean
+) {
+  try {
+    await mailer.sendVenueClaimDecision(
+      claim.user.email,
+      claim.user.firstName,
+      claim.venue.name,
+      approved,
+      claim.reviewNote || undefined
+    );
+  } catch (mailError) {
+    console.error('Failed to send venue claim decision email:', mailError);
+  }
+}
+
+export default router;
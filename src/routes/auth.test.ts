@@ -0,0 +1,156 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+process.env.JWT_SECRET = 'test-secret';
+process.env.BCRYPT_ROUNDS = '4';
+process.env.MAIL_TRANSPORT = 'outbox';
+
+// In-memory stand-in for the tables the sign up and verification flow touches
+const mockDb = {
+  users: [] as any[],
+  sessions: [] as any[],
+  refreshTokens: [] as any[],
+  outbox: [] as any[]
+};
+
+const pick = (record: any, select?: Record<string, boolean>) =>
+  select ? Object.fromEntries(Object.keys(select).map(key => [key, record[key]])) : record;
+
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+  let nextId = 1;
+  const id = () => `id${nextId++}`;
+  const findBy = (rows: any[], where: Record<string, unknown>) =>
+    rows.find(row => Object.entries(where).every(([key, value]) => row[key] === value)) || null;
+
+  const client = {
+    user: {
+      findUnique: async ({ where, select }: any) => {
+        const user = findBy(mockDb.users, where);
+        return user && pick(user, select);
+      },
+      create: async ({ data, select }: any) => {
+        const user = {
+          id: id(),
+          role: 'USER',
+          isEmailVerified: false,
+          tokenVersion: 0,
+          totpEnabledAt: null,
+          createdAt: new Date(),
+          ...data
+        };
+        mockDb.users.push(user);
+        return pick(user, select);
+      },
+      update: async ({ where, data }: any) => Object.assign(findBy(mockDb.users, where), data)
+    },
+    session: {
+      create: async ({ data }: any) => {
+        const session = { id: id(), revokedAt: null, ...data };
+        mockDb.sessions.push(session);
+        return session;
+      }
+    },
+    refreshToken: {
+      create: async ({ data }: any) => {
+        const token = { id: id(), revokedAt: null, ...data };
+        mockDb.refreshTokens.push(token);
+        return token;
+      }
+    },
+    mailOutbox: {
+      create: async ({ data }: any) => {
+        const message = { id: id(), createdAt: new Date(), ...data };
+        mockDb.outbox.push(message);
+        return message;
+      }
+    }
+  };
+
+  return { ...actual, PrismaClient: jest.fn(() => client) };
+});
+
+import authRoutes from './auth';
+import { errorHandler } from '../middleware/errorHandler';
+
+describe('email verification', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(done => {
+    const app = express();
+    app.use(express.json());
+    app.use('/auth', authRoutes);
+    app.use(errorHandler);
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+  // The token from the link in the last email sent to an address
+  const tokenFromOutbox = (to: string): string => {
+    const message = [...mockDb.outbox].reverse().find(entry => entry.to === to);
+    const link = message.text.match(/https?:\/\/\S+\/verify-email\?token=(\S+)/);
+    return decodeURIComponent(link[1]);
+  };
+
+  it('verifies the address with the token emailed on sign up', async () => {
+    const signUp = await post('/auth/signup', {
+      email: 'Casey@Example.com',
+      password: 'correct horse',
+      firstName: 'Casey',
+      lastName: 'Jones'
+    });
+    expect(signUp.status).toBe(201);
+
+    const message = mockDb.outbox.find(entry => entry.to === 'casey@example.com');
+    expect(message.subject).toBe('Verify your Vibe email address');
+    expect(mockDb.users[0].isEmailVerified).toBe(false);
+
+    const verify = await post('/auth/verify-email', { token: tokenFromOutbox('casey@example.com') });
+    expect(verify.status).toBe(200);
+    expect(mockDb.users[0].isEmailVerified).toBe(true);
+  });
+
+  it('rejects a tampered token', async () => {
+    const token = tokenFromOutbox('casey@example.com');
+    const response = await post('/auth/verify-email', { token: `${token.slice(0, -2)}xx` });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects a token sent to an address the account no longer has', async () => {
+    const signUp = await post('/auth/signup', {
+      email: 'robin@example.com',
+      password: 'correct horse',
+      firstName: 'Robin',
+      lastName: 'Lee'
+    });
+    expect(signUp.status).toBe(201);
+
+    const token = tokenFromOutbox('robin@example.com');
+    const user = mockDb.users.find(entry => entry.email === 'robin@example.com');
+    user.email = 'robin@elsewhere.com';
+
+    const response = await post('/auth/verify-email', { token });
+    expect(response.status).toBe(400);
+    expect(user.isEmailVerified).toBe(false);
+  });
+});
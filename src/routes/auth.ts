@@ -1,13 +1,132 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
+import { OAuthProvider, Prisma, PrismaClient, User } from '@prisma/client';
 import { asyncHandler, createError } from '../middleware/errorHandler';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
-import { validateSignUp, validateSignIn } from '../utils/validation';
+import { logAuditEvent } from '../middleware/auditLogger';
+import {
+  validateSignUp,
+  validateSignIn,
+  validateRefreshToken,
+  validateVerifyEmail,
+  validateForgotPassword,
+  validateResetPassword,
+  validateTwoFactorSignIn,
+  validateOAuthSignIn
+} from '../utils/validation';
+import { sessionContext, TokenService } from '../services/tokenService';
+import { MailerService } from '../services/mailer';
+import { LoginThrottleService } from '../services/loginThrottle';
+import { TwoFactorService } from '../services/twoFactor';
+import { OAuthVerifierService } from '../services/oauthVerifier';
+import { effectivePermissions } from '../utils/venuePermissions';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const tokenService = new TokenService();
+const mailer = new MailerService();
+const loginThrottle = new LoginThrottleService();
+const twoFactorService = new TwoFactorService();
+const oauthVerifier = new OAuthVerifierService();
+
+const EMAIL_VERIFICATION_EXPIRES_IN = process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m';
+// Compared against when there's no password to check, so sign in takes as
+// long for unknown emails as for known ones
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('no account', parseInt(process.env.BCRYPT_ROUNDS || '12'));
+
+const sendVerificationEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = tokenService.signPurposeToken(user, 'email_verification', EMAIL_VERIFICATION_EXPIRES_IN);
+  await mailer.sendEmailVerification(user.email, user.firstName, token);
+};
+
+const sendPasswordResetEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = await tokenService.createPasswordResetToken(user.id);
+  await mailer.sendPasswordReset(user.email, user.firstName, token);
+};
+
+// Issue tokens for a fully authenticated user and send the sign in response
+const completeSignIn = async (req: express.Request, res: express.Response, user: User, deviceName?: string) => {
+  // Generate access and refresh tokens
+  const tokens = await tokenService.issueTokens(user, sessionContext(req, deviceName));
+
+  // Update last active time
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastActiveAt: new Date() }
+  });
+
+  res.json({
+    message: 'Signed in successfully',
+    ...tokens,
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      isEmailVerified: user.isEmailVerified,
+      twoFactorEnabled: user.totpEnabledAt !== null,
+      profileImage: user.profileImage,
+      createdAt: user.createdAt
+    }
+  });
+};
+
+// Counts a failed password or 2FA code towards the account's lockout
+const recordSignInFailure = async (req: express.Request, email: string, userId: string | null) => {
+  const failure = await loginThrottle.recordFailure(email);
+
+  if (failure.lockedUntil) {
+    await logAuditEvent(req, {
+      userId,
+      action: 'ACCOUNT_LOCKED',
+      resource: 'auth',
+      resourceId: userId,
+      metadata: {
+        email: email.toLowerCase(),
+        failedAttempts: failure.failedCount,
+        lockedUntil: failure.lockedUntil
+      }
+    });
+  }
+};
+
+const findLinkedIdentity = (provider: OAuthProvider, providerUserId: string) =>
+  prisma.userIdentity.findUnique({
+    where: {
+      provider_providerUserId: { provider, providerUserId }
+    },
+    include: { user: true }
+  });
+
+// Two first sign ins with the same identity can race to link or create the
+// account; the one that loses gets the identity the other one saved
+const identityAfterRace = async (error: unknown, provider: OAuthProvider, providerUserId: string) => {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    const linked = await findLinkedIdentity(provider, providerUserId);
+    if (linked) {
+      return linked;
+    }
+  }
+  throw error;
+};
+
+// First factor passed: accounts with 2FA get a short-lived challenge instead of tokens
+const beginSignIn = async (req: express.Request, res: express.Response, user: User, deviceName?: string) => {
+  if (user.totpEnabledAt) {
+    const challengeToken = tokenService.signPurposeToken(user, 'two_factor_challenge', TWO_FACTOR_CHALLENGE_EXPIRES_IN);
+
+    res.json({
+      message: 'Two-factor authentication required',
+      twoFactorRequired: true,
+      challengeToken
+    });
+    return;
+  }
+
+  await completeSignIn(req, res, user, deviceName);
+};
 
 // Sign up
 router.post('/signup', asyncHandler(async (req, res) => {
@@ -16,7 +135,7 @@ router.post('/signup', asyncHandler(async (req, res) => {
     throw createError(error.details[0].message, 400);
   }
 
-  const { email, password, firstName, lastName } = value;
+  const { email, password, firstName, lastName, deviceName } = value;
 
   // Check if user already exists
   const existingUser = await prisma.user.findUnique({
@@ -45,22 +164,26 @@ router.post('/signup', asyncHandler(async (req, res) => {
       firstName: true,
       lastName: true,
       role: true,
-      createdAt: true
+      createdAt: true,
+      tokenVersion: true
     }
   });
 
-  // Generate JWT token
-  const token = jwt.sign(
-    { userId: user.id, email: user.email },
-    process.env.JWT_SECRET!,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-  );
+  // Generate access and refresh tokens
+  const tokens = await tokenService.issueTokens(user, sessionContext(req, deviceName));
+  const { tokenVersion, ...profile } = user;
+
+  // A failed email shouldn't fail sign up; the user can request a resend
+  try {
+    await sendVerificationEmail(user);
+  } catch (mailError) {
+    console.error('Failed to send verification email:', mailError);
+  }
 
   res.status(201).json({
     message: 'User created successfully',
-    token,
-    user,
-    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+    ...tokens,
+    user: profile
   });
 }));
 
@@ -71,78 +194,346 @@ router.post('/signin', asyncHandler(async (req, res) => {
     throw createError(error.details[0].message, 400);
   }
 
-  const { email, password } = value;
+  const { email, password, deviceName } = value;
+
+  // Per-account throttling. The response is the same whether or not an
+  // account exists for the email.
+  const throttle = await loginThrottle.check(email);
+  if (!throttle.allowed) {
+    res.set('Retry-After', String(throttle.retryAfterSeconds));
+    throw createError('Too many failed sign-in attempts. Please try again later.', 429);
+  }
 
   // Find user
   const user = await prisma.user.findUnique({
     where: { email: email.toLowerCase() }
   });
 
-  if (!user) {
+  // Verify password (accounts created through Apple/Google may not have one)
+  const isValidPassword = await bcrypt.compare(password, user?.passwordHash || DUMMY_PASSWORD_HASH);
+  if (!user?.passwordHash || !isValidPassword) {
+    await recordSignInFailure(req, email, user?.id ?? null);
     throw createError('Invalid email or password', 401);
   }
 
-  // Verify password
-  const isValidPassword = await bcrypt.compare(password, user.passwordHash);
-  if (!isValidPassword) {
-    throw createError('Invalid email or password', 401);
+  // With 2FA the throttle is only cleared once the second factor passes, so
+  // knowing the password doesn't reset the lockout for code guessing
+  if (!user.totpEnabledAt) {
+    await loginThrottle.recordSuccess(email);
   }
 
-  // Generate JWT token
-  const token = jwt.sign(
-    { userId: user.id, email: user.email },
-    process.env.JWT_SECRET!,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-  );
+  await beginSignIn(req, res, user, deviceName);
+}));
+
+// Sign in, second step - exchanges a 2FA challenge plus a TOTP or recovery code for tokens
+router.post('/signin/2fa', asyncHandler(async (req, res) => {
+  const { error, value } = validateTwoFactorSignIn(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const claims = tokenService.verifyPurposeToken(value.challengeToken, 'two_factor_challenge');
+
+  // Code guesses count towards the same per-account lockout as passwords
+  const throttle = await loginThrottle.check(claims.email);
+  if (!throttle.allowed) {
+    res.set('Retry-After', String(throttle.retryAfterSeconds));
+    throw createError('Too many failed sign-in attempts. Please try again later.', 429);
+  }
+
+  const isValidCode = await twoFactorService.verify(claims.userId, value);
+  if (!isValidCode) {
+    await recordSignInFailure(req, claims.email, claims.userId);
+    throw createError('Invalid verification code', 401);
+  }
+
+  await loginThrottle.recordSuccess(claims.email);
+
+  const user = await prisma.user.findUnique({
+    where: { id: claims.userId }
+  });
+
+  if (!user) {
+    throw createError('Invalid or expired token', 400);
+  }
+
+  if (value.recoveryCode) {
+    await logAuditEvent(req, {
+      userId: user.id,
+      action: 'TWO_FACTOR_RECOVERY_CODE_USED',
+      resource: 'auth',
+      resourceId: user.id
+    });
+  }
+
+  await completeSignIn(req, res, user, value.deviceName);
+}));
+
+// Verify email address using the token from the verification email
+router.post('/verify-email', asyncHandler(async (req, res) => {
+  const { error, value } = validateVerifyEmail(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const claims = tokenService.verifyPurposeToken(value.token, 'email_verification');
+
+  // The token is only valid for the address it was sent to
+  const user = await prisma.user.findUnique({
+    where: { id: claims.userId }
+  });
+
+  if (!user || user.email !== claims.email) {
+    throw createError('Invalid or expired token', 400);
+  }
+
+  if (!user.isEmailVerified) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { isEmailVerified: true }
+    });
+  }
+
+  res.json({
+    message: 'Email verified successfully'
+  });
+}));
+
+// Resend the verification email
+router.post('/verify-email/resend', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  if (req.user!.isEmailVerified) {
+    throw createError('Email address is already verified', 400);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id },
+    select: { id: true, email: true, firstName: true }
+  });
+
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  await sendVerificationEmail(user);
+
+  res.json({
+    message: 'Verification email sent'
+  });
+}));
+
+// Request a password reset email. Always responds the same way so the
+// endpoint can't be used to discover which emails have accounts.
+router.post('/password/forgot', asyncHandler(async (req, res) => {
+  const { error, value } = validateForgotPassword(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: value.email.toLowerCase() }
+  });
+
+  // The response doesn't wait for the token and email, so its timing doesn't
+  // give away which emails have accounts
+  if (user) {
+    sendPasswordResetEmail(user).catch(mailError => {
+      console.error('Failed to send password reset email:', mailError);
+    });
+  }
+
+  res.json({
+    message: 'If an account exists for that email, a password reset link has been sent'
+  });
+}));
+
+// Reset password using the emailed single-use token
+router.post('/password/reset', asyncHandler(async (req, res) => {
+  const { error, value } = validateResetPassword(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const userId = await tokenService.consumePasswordResetToken(value.token);
+
+  const saltRounds = parseInt(process.env.BCRYPT_ROUNDS || '12');
+  const passwordHash = await bcrypt.hash(value.password, saltRounds);
 
-  // Update last active time
   await prisma.user.update({
-    where: { id: user.id },
-    data: { lastActiveAt: new Date() }
+    where: { id: userId },
+    data: { passwordHash }
+  });
+
+  // Anyone holding the old password may also hold tokens
+  await tokenService.revokeAllSessions(userId);
+
+  await logAuditEvent(req, {
+    userId,
+    action: 'PASSWORD_RESET',
+    resource: 'users',
+    resourceId: userId,
+    metadata: { sessionsRevoked: true }
   });
 
   res.json({
-    message: 'Signed in successfully',
-    token,
-    user: {
-      id: user.id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      role: user.role,
-      profileImage: user.profileImage,
-      createdAt: user.createdAt
-    },
-    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+    message: 'Password reset successfully. Please sign in again.'
   });
 }));
 
-// Sign out
+// Sign in with Apple / Google - verifies the provider ID token, then signs in
+// the linked account, links an existing account by verified email, or creates one
+router.post('/oauth/:provider', asyncHandler(async (req, res) => {
+  const provider = oauthVerifier.parseProvider(req.params.provider);
+  if (!provider) {
+    throw createError('Unsupported sign in provider', 404);
+  }
+
+  const { error, value } = validateOAuthSignIn(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const identity = await oauthVerifier.verifyIdToken(provider, value.idToken, value.nonce);
+
+  const linked = await findLinkedIdentity(provider, identity.subject);
+
+  if (linked) {
+    await prisma.userIdentity.update({
+      where: { id: linked.id },
+      data: { lastUsedAt: new Date() }
+    });
+
+    return beginSignIn(req, res, linked.user, value.deviceName);
+  }
+
+  if (!identity.email || !identity.emailVerified) {
+    throw createError('A verified email address is required to sign in', 400);
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: identity.email }
+  });
+
+  if (existingUser) {
+    // Linking to an unverified account would hand it to whoever registered the email first
+    if (!existingUser.isEmailVerified) {
+      throw createError('Sign in with your password and verify your email before linking this account', 409);
+    }
+
+    try {
+      await prisma.userIdentity.create({
+        data: {
+          userId: existingUser.id,
+          provider,
+          providerUserId: identity.subject,
+          email: identity.email
+        }
+      });
+    } catch (error) {
+      const raced = await identityAfterRace(error, provider, identity.subject);
+      return beginSignIn(req, res, raced.user, value.deviceName);
+    }
+
+    await logAuditEvent(req, {
+      userId: existingUser.id,
+      action: 'OAUTH_IDENTITY_LINKED',
+      resource: 'auth',
+      resourceId: existingUser.id,
+      metadata: { provider }
+    });
+
+    return beginSignIn(req, res, existingUser, value.deviceName);
+  }
+
+  let user: User;
+  try {
+    user = await prisma.user.create({
+      data: {
+        email: identity.email,
+        // Apple only shares the name with the app, which passes it along
+        firstName: value.firstName || identity.firstName || identity.email.split('@')[0],
+        lastName: value.lastName || identity.lastName || '',
+        isEmailVerified: true,
+        identities: {
+          create: {
+            provider,
+            providerUserId: identity.subject,
+            email: identity.email
+          }
+        }
+      }
+    });
+  } catch (error) {
+    const raced = await identityAfterRace(error, provider, identity.subject);
+    return beginSignIn(req, res, raced.user, value.deviceName);
+  }
+
+  res.status(201);
+  await completeSignIn(req, res, user, value.deviceName);
+}));
+
+// Sign out - revokes the current session, so every access and refresh token
+// issued to it stops working
 router.post('/signout', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
-  // In a more complex implementation, you might want to blacklist the JWT token
-  // For now, we'll just return success as the client will discard the token
+  await tokenService.revokeSession(req.token!.sid);
+
   res.json({
     message: 'Signed out successfully'
   });
 }));
 
-// Refresh token
-router.post('/refresh', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
-  const userId = req.user!.id;
+// Sign out everywhere - invalidates every token issued to the user
+router.post('/signout/all', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  await tokenService.revokeAllSessions(req.user!.id);
+
+  res.json({
+    message: 'Signed out of all devices successfully'
+  });
+}));
+
+// List the current user's active device sessions
+router.get('/sessions', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const sessions = await tokenService.listActiveSessions(req.user!.id);
+
+  res.json({
+    sessions: sessions.map(session => ({
+      ...session,
+      current: session.id === req.token!.sid
+    }))
+  });
+}));
+
+// Revoke one of the current user's sessions (e.g. "log out my old phone")
+router.delete('/sessions/:id', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const session = await prisma.session.findFirst({
+    where: { id, userId: req.user!.id }
+  });
+
+  if (!session) {
+    throw createError('Session not found', 404);
+  }
 
-  // Generate new JWT token
-  const token = jwt.sign(
-    { userId, email: req.user!.email },
-    process.env.JWT_SECRET!,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-  );
+  await tokenService.revokeSession(id);
 
   res.json({
-    token,
-    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+    message: 'Session revoked successfully'
   });
 }));
 
+// Refresh token - exchanges a refresh token for a new token pair.
+// No access token is required, so clients can recover after it expires.
+router.post('/refresh', asyncHandler(async (req, res) => {
+  const { error, value } = validateRefreshToken(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const tokens = await tokenService.rotateRefreshToken(value.refreshToken, sessionContext(req));
+
+  res.json(tokens);
+}));
+
 // Get current user profile
 router.get('/me', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const user = await prisma.user.findUnique({
@@ -161,9 +552,12 @@ router.get('/me', authMiddleware, asyncHandler(async (req: AuthenticatedRequest,
       location: true,
       phoneNumber: true,
       role: true,
-      venueIds: true,
+      isEmailVerified: true,
       createdAt: true,
-      lastActiveAt: true
+      lastActiveAt: true,
+      venueMemberships: {
+        select: { venueId: true, role: true, permissions: true }
+      }
     }
   });
 
@@ -171,7 +565,19 @@ router.get('/me', authMiddleware, asyncHandler(async (req: AuthenticatedRequest,
     throw createError('User not found', 404);
   }
 
-  res.json({ user });
+  const { venueMemberships, ...profile } = user;
+
+  res.json({
+    user: {
+      ...profile,
+      venueIds: venueMemberships.map(membership => membership.venueId),
+      venueMemberships: venueMemberships.map(membership => ({
+        venueId: membership.venueId,
+        role: membership.role,
+        permissions: effectivePermissions(membership)
+      }))
+    }
+  });
 }));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,52 @@
+import express from 'express';
+import { PrismaClient } from '@prisma/client';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { CategoryService } from '../services/categories';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const categoryService = new CategoryService();
+
+// GET /categories - Full category tree
+router.get('/', asyncHandler(async (req, res) => {
+  const categories = await categoryService.getTree();
+
+  res.json({ categories });
+}));
+
+// GET /categories/:slug - Category with its ancestors and direct children
+router.get('/:slug', asyncHandler(async (req, res) => {
+  const { slug } = req.params;
+
+  const category = await prisma.category.findUnique({
+    where: { slug },
+    include: {
+      children: {
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+      }
+    }
+  });
+
+  if (!category) {
+    throw createError('Category not found', 404);
+  }
+
+  const [path, subtreeIds] = await Promise.all([
+    categoryService.getPath(category.id),
+    categoryService.subtreeIds(slug)
+  ]);
+
+  const venueCount = await prisma.venue.count({
+    where: { archivedAt: null, categories: { some: { categoryId: { in: subtreeIds! } } } }
+  });
+
+  res.json({
+    category: {
+      ...category,
+      path: path.map(({ id, name, slug }) => ({ id, name, slug })),
+      venueCount
+    }
+  });
+}));
+
+export default router;
@@ -2,6 +2,8 @@ import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { asyncHandler, createError } from '../middleware/errorHandler';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { currentBusyStatus, recentSnapshotsInclude } from '../services/busyStatus';
+import { toPublicVenue } from '../utils/venueAttributes';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -10,15 +12,16 @@ const prisma = new PrismaClient();
 router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
   const { city, limit = 20, offset = 0, type } = req.query;
 
-  let whereClause: any = {};
+  // Content from archived venues is hidden
+  let whereClause: any = {
+    venue: { archivedAt: null }
+  };
 
   // Filter by city if provided
   if (city) {
-    whereClause.venue = {
-      location: {
-        contains: city as string,
-        mode: 'insensitive'
-      }
+    whereClause.venue.location = {
+      contains: city as string,
+      mode: 'insensitive'
     };
   }
 
@@ -154,7 +157,8 @@ router.get('/trending', asyncHandler(async (req: AuthenticatedRequest, res) => {
     where: {
       createdAt: {
         gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // Last week
-      }
+      },
+      venue: { archivedAt: null }
     },
     include: {
       venue: {
@@ -174,16 +178,9 @@ router.get('/trending', asyncHandler(async (req: AuthenticatedRequest, res) => {
 
   // Get popular venues (by recent activity)
   const popularVenues = await prisma.venue.findMany({
+    where: { archivedAt: null },
     include: {
-      busySnapshots: {
-        where: {
-          timestamp: {
-            gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-          }
-        },
-        orderBy: { timestamp: 'desc' },
-        take: 1
-      },
+      ...recentSnapshotsInclude(),
       _count: {
         select: {
           posts: {
@@ -218,9 +215,8 @@ router.get('/trending', asyncHandler(async (req: AuthenticatedRequest, res) => {
       timestamp: post.createdAt
     })),
     popularVenues: popularVenues.map(venue => ({
-      ...venue,
-      currentStatus: venue.busySnapshots[0]?.status || 'MODERATE',
-      currentOccupancy: venue.busySnapshots[0]?.occupancyPercentage || 0,
+      ...toPublicVenue(venue),
+      ...currentBusyStatus(venue.busySnapshots),
       recentPosts: venue._count.posts,
       busySnapshots: undefined,
       _count: undefined
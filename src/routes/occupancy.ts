@@ -0,0 +1,27 @@
+import express from 'express';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { DeviceRequest } from '../middleware/deviceAuth';
+import { OccupancyService } from '../services/occupancy';
+import { validateIngestOccupancy } from '../utils/validation';
+
+const router = express.Router();
+const occupancyService = new OccupancyService();
+
+// POST /occupancy - Record entries/exits or a headcount from the device's venue.
+// Takes one reading or { readings: [...] } for devices that queue while offline.
+router.post('/', asyncHandler(async (req: DeviceRequest, res) => {
+  const { error, value } = validateIngestOccupancy(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const result = await occupancyService.ingest(req.device!, value.readings);
+
+  res.status(201).json({
+    message: 'Occupancy recorded successfully',
+    accepted: value.readings.length - result.ignored,
+    ...result
+  });
+}));
+
+export default router;
@@ -0,0 +1,168 @@
+import express from 'express';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { BusyStatusEvent, BusyStatusUpdate, busyEventBus } from '../services/busyEvents';
+import { currentBusyStatus, recentSnapshotsInclude } from '../services/busyStatus';
+import { TokenService } from '../services/tokenService';
+import { BoundingBox, isInBoundingBox } from '../utils/geo';
+import { validateBusyStreamQuery } from '../utils/validation';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+const tokenService = new TokenService();
+
+const MAX_STREAM_VENUES = 200;
+// Comment lines that stop proxies closing quiet streams. Each one also checks
+// the session, so signing out ends the stream within this long.
+const HEARTBEAT_MS = 25 * 1000;
+// How long EventSource waits before reconnecting
+const RETRY_MS = 5000;
+
+// GET /stream/busy - Live busy status for a set of venues or a map viewport,
+// as server-sent events. New streams, and streams that can't be resumed,
+// start with a `snapshot` of every matching venue; after that each change is
+// a `busy` event. Reconnecting with Last-Event-ID replays what was missed.
+router.get('/busy', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value: query } = validateBusyStreamQuery(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const venueIds = query.venueIds
+    ? new Set<string>(query.venueIds.split(',').map((id: string) => id.trim()).filter(Boolean))
+    : null;
+  if (venueIds && (venueIds.size === 0 || venueIds.size > MAX_STREAM_VENUES)) {
+    throw createError(`venueIds must list between 1 and ${MAX_STREAM_VENUES} venues`, 400);
+  }
+
+  const bounds: BoundingBox | null = venueIds ? null : {
+    minLatitude: query.minLat,
+    maxLatitude: query.maxLat,
+    minLongitude: query.minLng,
+    maxLongitude: query.maxLng
+  };
+  if (bounds && bounds.minLatitude > bounds.maxLatitude) {
+    throw createError('minLat, maxLat, minLng and maxLng must describe a valid viewport', 400);
+  }
+
+  const matches = (event: BusyStatusEvent) =>
+    venueIds ? venueIds.has(event.venueId) : isInBoundingBox(event, bounds!);
+
+  // Subscribe before catching up so nothing is missed in between; live events
+  // are held back until the catch-up has been sent
+  let held: BusyStatusEvent[] | null = [];
+  const unsubscribe = busyEventBus.subscribe(event => {
+    if (!matches(event)) {
+      return;
+    }
+    if (held) {
+      held.push(event);
+    } else {
+      send('busy', event, event.id);
+    }
+  });
+
+  let heartbeat: NodeJS.Timeout | undefined;
+  let expiry: NodeJS.Timeout | undefined;
+  const stop = () => {
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    unsubscribe();
+  };
+  // Registered early in case the client goes away while we catch up
+  req.on('close', stop);
+  const end = () => {
+    stop();
+    res.end();
+  };
+
+  let missed: BusyStatusEvent[] | null;
+  let snapshot: BusyStatusUpdate[] | null = null;
+  try {
+    const lastEventId = req.get('Last-Event-ID') || query.lastEventId;
+    missed = lastEventId ? await busyEventBus.since(lastEventId) : null;
+    if (!missed) {
+      snapshot = await currentStatuses(venueIds, bounds);
+    }
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+
+  if (res.destroyed) {
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop nginx buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  function send(event: string, data: unknown, id?: string) {
+    res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  const replayed = new Set<string>();
+  if (snapshot) {
+    send('snapshot', { venues: snapshot });
+  } else {
+    missed!.filter(matches).forEach(event => {
+      replayed.add(event.id);
+      send('busy', event, event.id);
+    });
+  }
+  held.filter(event => !replayed.has(event.id)).forEach(event => send('busy', event, event.id));
+  held = null;
+
+  heartbeat = setInterval(async () => {
+    try {
+      if (!await tokenService.isSessionActive(req.token!.sid)) {
+        return end();
+      }
+    } catch (error) {
+      // Keep the stream open; the next heartbeat checks again
+      console.error('Failed to check stream session:', error);
+    }
+    if (!res.writableEnded) {
+      res.write(': ping\n\n');
+    }
+  }, HEARTBEAT_MS);
+  // End the stream when the access token expires; the client reconnects with
+  // a fresh token and its Last-Event-ID
+  expiry = setTimeout(end, Math.max(0, req.token!.exp * 1000 - Date.now()));
+}));
+
+// Current busy status of the venues a stream covers
+async function currentStatuses(venueIds: Set<string> | null, bounds: BoundingBox | null): Promise<BusyStatusUpdate[]> {
+  const where: Prisma.VenueWhereInput = venueIds
+    ? { id: { in: Array.from(venueIds) } }
+    : {
+        latitude: { gte: bounds!.minLatitude, lte: bounds!.maxLatitude },
+        // A viewport crossing the antimeridian has minLongitude > maxLongitude
+        ...(bounds!.minLongitude <= bounds!.maxLongitude
+          ? { longitude: { gte: bounds!.minLongitude, lte: bounds!.maxLongitude } }
+          : { OR: [{ longitude: { gte: bounds!.minLongitude } }, { longitude: { lte: bounds!.maxLongitude } }] })
+      };
+
+  const venues = await prisma.venue.findMany({
+    where: { ...where, archivedAt: null },
+    select: {
+      id: true,
+      latitude: true,
+      longitude: true,
+      ...recentSnapshotsInclude()
+    }
+  });
+
+  return venues.map(venue => {
+    const { busySources, ...status } = currentBusyStatus(venue.busySnapshots);
+    return { venueId: venue.id, latitude: venue.latitude, longitude: venue.longitude, ...status };
+  });
+}
+
+export default router;
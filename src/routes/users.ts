@@ -1,11 +1,22 @@
 import express from 'express';
+import bcrypt from 'bcryptjs';
 import { PrismaClient } from '@prisma/client';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { AuthenticatedRequest } from '../middleware/auth';
-import { validateUpdateUser } from '../utils/validation';
+import { AuthenticatedRequest, isTwoFactorRequiredForRole } from '../middleware/auth';
+import { logAuditEvent } from '../middleware/auditLogger';
+import {
+  validateUpdateUser,
+  validateChangePassword,
+  validateTwoFactorCode,
+  validateDisableTwoFactor
+} from '../utils/validation';
+import { sessionContext, TokenService } from '../services/tokenService';
+import { TwoFactorService } from '../services/twoFactor';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const tokenService = new TokenService();
+const twoFactorService = new TwoFactorService();
 
 // GET /users/me - Get current user profile (handled in auth routes)
 // This is just for organization, actual endpoint is in auth.ts
@@ -44,6 +55,176 @@ router.put('/me', asyncHandler(async (req: AuthenticatedRequest, res) => {
   });
 }));
 
+// PUT /users/me/password - Change password (requires the current password)
+router.put('/me/password', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateChangePassword(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id }
+  });
+
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  // Accounts created through Apple/Google set their first password via reset
+  if (!user.passwordHash) {
+    throw createError('No password is set for this account. Use password reset to create one.', 400);
+  }
+
+  const isValidPassword = await bcrypt.compare(value.currentPassword, user.passwordHash);
+  if (!isValidPassword) {
+    throw createError('Current password is incorrect', 401);
+  }
+
+  const saltRounds = parseInt(process.env.BCRYPT_ROUNDS || '12');
+  const passwordHash = await bcrypt.hash(value.newPassword, saltRounds);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { passwordHash }
+  });
+
+  // Sign out every device, then start a fresh session for this one
+  const tokenVersion = await tokenService.revokeAllSessions(user.id);
+  const tokens = await tokenService.issueTokens(
+    { id: user.id, email: user.email, tokenVersion },
+    sessionContext(req)
+  );
+
+  await logAuditEvent(req, {
+    userId: user.id,
+    action: 'PASSWORD_CHANGED',
+    resource: 'users',
+    resourceId: user.id,
+    metadata: { sessionsRevoked: true }
+  });
+
+  res.json({
+    message: 'Password changed successfully',
+    ...tokens
+  });
+}));
+
+// GET /users/me/2fa - Get two-factor authentication status
+router.get('/me/2fa', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id },
+    select: { role: true, totpEnabledAt: true, totpRecoveryCodes: true }
+  });
+
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  res.json({
+    enabled: user.totpEnabledAt !== null,
+    enabledAt: user.totpEnabledAt,
+    required: isTwoFactorRequiredForRole(user.role),
+    recoveryCodesRemaining: user.totpRecoveryCodes.length
+  });
+}));
+
+// POST /users/me/2fa - Start TOTP enrolment (returns the secret and provisioning URI for a QR code)
+router.post('/me/2fa', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const enrolment = await twoFactorService.beginEnrolment(req.user!.id);
+
+  res.json({
+    message: 'Scan the QR code with your authenticator app, then confirm with a code',
+    ...enrolment
+  });
+}));
+
+// POST /users/me/2fa/verify - Confirm enrolment with a code from the authenticator app
+router.post('/me/2fa/verify', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateTwoFactorCode(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const recoveryCodes = await twoFactorService.confirmEnrolment(req.user!.id, value.code);
+
+  // Sessions started with only a password are signed out; this device gets new tokens
+  const tokenVersion = await tokenService.revokeAllSessions(req.user!.id);
+  const tokens = await tokenService.issueTokens(
+    { id: req.user!.id, email: req.user!.email, tokenVersion },
+    sessionContext(req)
+  );
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'TWO_FACTOR_ENABLED',
+    resource: 'users',
+    resourceId: req.user!.id
+  });
+
+  res.json({
+    message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+    recoveryCodes,
+    ...tokens
+  });
+}));
+
+// POST /users/me/2fa/recovery-codes - Replace recovery codes (requires a current code)
+router.post('/me/2fa/recovery-codes', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateTwoFactorCode(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const isValidCode = await twoFactorService.verify(req.user!.id, { code: value.code });
+  if (!isValidCode) {
+    throw createError('Invalid verification code', 401);
+  }
+
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id);
+
+  res.json({ recoveryCodes });
+}));
+
+// DELETE /users/me/2fa - Disable two-factor authentication
+router.delete('/me/2fa', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateDisableTwoFactor(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  if (isTwoFactorRequiredForRole(req.user!.role)) {
+    throw createError('Two-factor authentication is required for your role', 403);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id }
+  });
+
+  if (!user || !user.totpEnabledAt) {
+    throw createError('Two-factor authentication is not enabled', 400);
+  }
+
+  const isValidPassword = user.passwordHash === null ||
+    (value.password !== undefined && await bcrypt.compare(value.password, user.passwordHash));
+  const isValidCode = isValidPassword && await twoFactorService.verify(user.id, value);
+  if (!isValidCode) {
+    throw createError('Invalid password or verification code', 401);
+  }
+
+  await twoFactorService.disable(user.id);
+
+  await logAuditEvent(req, {
+    userId: user.id,
+    action: 'TWO_FACTOR_DISABLED',
+    resource: 'users',
+    resourceId: user.id
+  });
+
+  res.json({
+    message: 'Two-factor authentication disabled'
+  });
+}));
+
 // GET /users/me/activity - Get user activity
 router.get('/me/activity', asyncHandler(async (req: AuthenticatedRequest, res) => {
   const userId = req.user!.id;
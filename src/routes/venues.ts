@@ -1,101 +1,362 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { BusyStatus, PrismaClient, Prisma, VenueStaffRole } from '@prisma/client';
 import { asyncHandler, createError } from '../middleware/errorHandler';
-import { AuthenticatedRequest, requireRole, requireVenueAccess } from '../middleware/auth';
+import {
+  AuthenticatedRequest,
+  requireRole,
+  requireVenuePermission,
+  requireVerifiedEmail
+} from '../middleware/auth';
+import { logAuditEvent } from '../middleware/auditLogger';
 import {
   validateCreateVenue,
   validateUpdateVenue,
   validateCreateDeal,
   validateCreateEvent,
-  validateCreatePost
+  validateCreatePost,
+  validateUpdateStaffMember,
+  validateCreateVenueInvite,
+  validateAcceptVenueInvite,
+  validateCreateVenueClaim,
+  validateListVenuesQuery,
+  validateArchiveVenue,
+  validateCreateOccupancyDevice,
+  validateSearchVenuesQuery,
+  validateAutocompleteVenuesQuery,
+  validateBusyForecastQuery,
+  validateReportBusyStatus,
+  VENUE_SORTS
 } from '../utils/validation';
+import { canGrant, effectivePermissions, isHigherRole } from '../utils/venuePermissions';
+import { haversineDistanceMeters, isValidLatitude, isValidLongitude } from '../utils/geo';
+import { toLocalDateTime, tonightWindow } from '../utils/timezone';
+import { parseNameList, toPublicVenue } from '../utils/venueAttributes';
 import { SerpAPIService } from '../services/serpApi';
 import { GooglePlacesService } from '../services/googlePlaces';
+import { GeoSearchService } from '../services/geoSearch';
+import { VenueMapService, MAX_CLUSTER_ZOOM } from '../services/venueMap';
+import {
+  BUSY_STATUS_ORDER,
+  OBSERVED_SOURCES,
+  currentBusyStatus,
+  recentSnapshotsInclude,
+  recentSnapshotsQuery,
+  statusPercentage
+} from '../services/busyStatus';
+import { OpeningHoursService } from '../services/openingHours';
+import { VenueSearchService } from '../services/venueSearch';
+import { CategoryService } from '../services/categories';
+import { VenueLifecycleService } from '../services/venueLifecycle';
+import { RevisionAuthor, VenueRevisionService } from '../services/venueRevisions';
+import { OccupancyService } from '../services/occupancy';
+import { BusyForecastService } from '../services/busyForecast';
+import { BusyStatusNotifier } from '../services/busyNotifier';
+import { MailerService } from '../services/mailer';
+import { hashToken } from '../services/tokenService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 const serpApiService = new SerpAPIService();
 const googlePlacesService = new GooglePlacesService();
+const geoSearchService = new GeoSearchService();
+const venueMapService = new VenueMapService();
+const openingHoursService = new OpeningHoursService();
+const venueSearchService = new VenueSearchService();
+const categoryService = new CategoryService();
+const venueLifecycleService = new VenueLifecycleService();
+const venueRevisionService = new VenueRevisionService();
+const occupancyService = new OccupancyService();
+const busyForecastService = new BusyForecastService();
+const busyStatusNotifier = new BusyStatusNotifier();
+const mailer = new MailerService();
+
+const VENUE_INVITE_EXPIRES_DAYS = parseInt(process.env.VENUE_INVITE_EXPIRES_DAYS || '7');
+// How often one user can report on the same venue's busy status
+const CROWD_REPORT_INTERVAL_MS = 15 * 60 * 1000;
+
+type VenueSort = typeof VENUE_SORTS[number];
+
+const DEFAULT_SORT_ORDER: Record<VenueSort, 'asc' | 'desc'> = {
+  name: 'asc',
+  distance: 'asc',
+  rating: 'desc',
+  busyness: 'desc'
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 // GET /venues - Get all venues with optional filtering
 router.get('/', asyncHandler(async (req, res) => {
-  const { lat, lng, radius = 10000, category, limit = 50, offset = 0 } = req.query;
+  const { error, value: query } = validateListVenuesQuery(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
 
-  let whereClause: any = {};
-  let orderBy: any = { name: 'asc' };
+  const { sort, limit: take, offset: skip } = query;
+  const now = new Date();
+  let whereClause: any = { archivedAt: null };
 
-  // Filter by category if provided
-  if (category) {
-    whereClause.category = {
-      contains: category as string,
-      mode: 'insensitive'
-    };
+  // Opening status is reported for openAt when given, otherwise for now
+  const at: Date = query.openAt || now;
+  const mustBeOpen = query.openNow === true || !!query.openAt;
+
+  // A category slug matches that category and everything below it;
+  // anything else falls back to matching the free-text category
+  if (query.category) {
+    const categoryIds = await categoryService.subtreeIds(query.category);
+    if (categoryIds) {
+      whereClause.categories = { some: { categoryId: { in: categoryIds } } };
+    } else {
+      whereClause.category = { contains: query.category, mode: 'insensitive' };
+    }
   }
 
-  // If location provided, we can add distance-based filtering
-  // Note: For production, you'd want to use PostGIS or similar for proper geo queries
-  if (lat && lng) {
-    const latitude = parseFloat(lat as string);
-    const longitude = parseFloat(lng as string);
-    const radiusKm = parseFloat(radius as string) / 1000;
+  if (query.priceRange) {
+    whereClause.priceRange = { in: query.priceRange.split(',') };
+  }
+
+  // Any of the genres, but all of the features
+  const genres = parseNameList(query.musicGenres);
+  if (genres.length > 0) {
+    whereClause.musicGenreNames = { hasSome: genres };
+  }
+  const features = parseNameList(query.features);
+  if (features.length > 0) {
+    whereClause.featureNames = { hasEvery: features };
+  }
 
-    // Simple bounding box calculation (not precise but works for demo)
-    const latRange = radiusKm / 111; // Rough km to degree conversion
-    const lngRange = radiusKm / (111 * Math.cos(latitude * Math.PI / 180));
+  if (query.minRating !== undefined) {
+    whereClause.rating = { gte: query.minRating };
+  }
 
-    whereClause.latitude = {
-      gte: latitude - latRange,
-      lte: latitude + latRange
-    };
-    whereClause.longitude = {
-      gte: longitude - lngRange,
-      lte: longitude + lngRange
+  if (query.minCapacity !== undefined || query.maxCapacity !== undefined) {
+    whereClause.capacity = { gte: query.minCapacity, lte: query.maxCapacity };
+  }
+
+  if (query.hasActiveDeal) {
+    whereClause.deals = {
+      some: { isActive: true, validFrom: { lte: now }, validUntil: { gte: now } }
     };
   }
 
-  const venues = await prisma.venue.findMany({
-    where: whereClause,
-    orderBy,
-    take: parseInt(limit as string),
-    skip: parseInt(offset as string),
-    include: {
-      busySnapshots: {
-        where: {
-          timestamp: {
-            gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-          }
-        },
-        orderBy: { timestamp: 'desc' },
-        take: 1
+  // "Tonight" depends on each venue's time zone, so narrow it down in memory
+  const upcomingEvents = {
+    isActive: true,
+    endTime: { gt: now },
+    startTime: { lt: new Date(now.getTime() + 36 * 60 * 60 * 1000) }
+  };
+  if (query.hasEventTonight) {
+    whereClause.events = { some: upcomingEvents };
+  }
+
+  // Exact great-circle radius filter; distances are returned on each venue
+  let distances: Map<string, number> | null = null;
+  if (query.lat !== undefined) {
+    const nearby = await geoSearchService.findWithinRadius(
+      { latitude: query.lat, longitude: query.lng },
+      query.radius
+    );
+    distances = new Map(nearby.map(venue => [venue.id, venue.distanceMeters]));
+    whereClause.id = { in: nearby.map(venue => venue.id) };
+  } else if (sort === 'distance') {
+    throw createError('lat and lng are required to sort by distance', 400);
+  }
+
+  const descending = (query.order || DEFAULT_SORT_ORDER[sort as VenueSort]) === 'desc';
+  const busyStatuses: string[] | null = query.busyStatus ? query.busyStatus.split(',') : null;
+
+  // Distance, busyness and opening hours aren't known to Prisma, so those page in memory
+  const pageInMemory = sort === 'distance' || sort === 'busyness' || mustBeOpen ||
+    query.closingSoon || query.hasEventTonight || !!busyStatuses;
+
+  const orderBy: any[] = sort === 'rating'
+    ? [{ rating: { sort: descending ? 'desc' : 'asc', nulls: 'last' } }, { name: 'asc' }]
+    : [{ name: sort === 'name' && descending ? 'desc' : 'asc' }];
+
+  const [venues, holidays] = await Promise.all([
+    prisma.venue.findMany({
+      where: whereClause,
+      orderBy,
+      take: pageInMemory ? undefined : take,
+      skip: pageInMemory ? undefined : skip,
+      include: {
+        ...recentSnapshotsInclude(),
+        events: query.hasEventTonight
+          ? { where: upcomingEvents, select: { startTime: true, endTime: true } }
+          : false
       }
-    }
-  });
+    }),
+    openingHoursService.holidayDates()
+  ]);
 
-  // Add current busy status to each venue
-  const venuesWithStatus = venues.map(venue => {
-    const latestSnapshot = venue.busySnapshots[0];
+  // Add current busy status and opening status to each venue
+  let venuesWithStatus = venues.map(venue => {
+    const openingStatus = openingHoursService.statusFor(venue, at, holidays);
     return {
-      ...venue,
-      currentStatus: latestSnapshot?.status || 'MODERATE',
-      currentOccupancy: latestSnapshot?.occupancyCount || 0,
-      occupancyPercentage: latestSnapshot?.occupancyPercentage || 0,
-      busySnapshots: undefined // Remove from response
+      ...toPublicVenue(venue),
+      distanceMeters: distances?.get(venue.id),
+      ...currentBusyStatus(venue.busySnapshots),
+      isOpen: openingStatus?.isOpen ?? null,
+      opensAt: openingStatus?.opensAt ?? null,
+      closesAt: openingStatus?.closesAt ?? null,
+      closingSoon: openingStatus?.closingSoon ?? false,
+      busySnapshots: undefined, // Remove from response
+      openingSchedule: undefined,
+      events: undefined
     };
   });
 
+  if (pageInMemory) {
+    if (mustBeOpen) {
+      venuesWithStatus = venuesWithStatus.filter(venue => venue.isOpen);
+    }
+    if (query.closingSoon) {
+      venuesWithStatus = venuesWithStatus.filter(venue => venue.closingSoon);
+    }
+    if (busyStatuses) {
+      venuesWithStatus = venuesWithStatus.filter(venue =>
+        venue.currentStatus !== null && busyStatuses.includes(venue.currentStatus)
+      );
+    }
+    if (query.hasEventTonight) {
+      const eventsByVenue = new Map(venues.map(venue => [venue.id, venue.events || []]));
+      venuesWithStatus = venuesWithStatus.filter(venue => {
+        const tonight = tonightWindow(now, venue.timezone);
+        const from = Math.max(tonight.start.getTime(), now.getTime());
+        return eventsByVenue.get(venue.id)!.some(event =>
+          event.startTime < tonight.end && event.endTime.getTime() > from
+        );
+      });
+    }
+
+    const direction = descending ? -1 : 1;
+    if (sort === 'distance') {
+      venuesWithStatus.sort((a, b) => direction * (a.distanceMeters! - b.distanceMeters!));
+    } else if (sort === 'busyness') {
+      // Stable sort, so equally busy venues keep their name order. Venues
+      // without busy data rank below closed ones.
+      venuesWithStatus.sort((a, b) => direction * (
+        busyRank(a.currentStatus) - busyRank(b.currentStatus) ||
+        a.occupancyPercentage - b.occupancyPercentage
+      ));
+    }
+    venuesWithStatus = venuesWithStatus.slice(skip, skip + take);
+  }
+
   res.json({
     venues: venuesWithStatus,
     metadata: {
       total: venuesWithStatus.length,
-      limit: parseInt(limit as string),
-      offset: parseInt(offset as string),
-      hasMore: venuesWithStatus.length === parseInt(limit as string)
+      limit: take,
+      offset: skip,
+      hasMore: venuesWithStatus.length === take
+    }
+  });
+}));
+
+// GET /venues/search - Ranked, typo-tolerant search across our venues
+router.get('/search', asyncHandler(async (req, res) => {
+  const { error, value: query } = validateSearchVenuesQuery(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const now = new Date();
+  const origin = query.lat !== undefined ? { latitude: query.lat, longitude: query.lng } : null;
+
+  const candidates = await venueSearchService.findCandidates(query.q);
+  const relevance = new Map(candidates.map(candidate => [candidate.id, candidate.relevance]));
+
+  const [venues, holidays] = await Promise.all([
+    prisma.venue.findMany({
+      where: { id: { in: candidates.map(candidate => candidate.id) }, archivedAt: null },
+      include: recentSnapshotsInclude()
+    }),
+    openingHoursService.holidayDates()
+  ]);
+
+  // Nearby and currently open venues rank higher
+  const results = venues.map(venue => {
+    const openingStatus = openingHoursService.statusFor(venue, now, holidays);
+    const distanceMeters = origin ? Math.round(haversineDistanceMeters(origin, venue)) : undefined;
+    return {
+      ...toPublicVenue(venue),
+      distanceMeters,
+      ...currentBusyStatus(venue.busySnapshots),
+      isOpen: openingStatus?.isOpen ?? null,
+      opensAt: openingStatus?.opensAt ?? null,
+      closesAt: openingStatus?.closesAt ?? null,
+      score: venueSearchService.score(relevance.get(venue.id)!, {
+        distanceMeters,
+        isOpen: openingStatus?.isOpen
+      }),
+      busySnapshots: undefined,
+      openingSchedule: undefined
+    };
+  }).sort((a, b) => b.score - a.score);
+
+  const page = results.slice(query.offset, query.offset + query.limit);
+
+  res.json({
+    query: query.q,
+    venues: page,
+    metadata: {
+      total: results.length,
+      limit: query.limit,
+      offset: query.offset,
+      hasMore: query.offset + page.length < results.length
     }
   });
 }));
 
+// GET /venues/autocomplete - Venue name suggestions for the search bar
+router.get('/autocomplete', asyncHandler(async (req, res) => {
+  const { error, value: query } = validateAutocompleteVenuesQuery(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const suggestions = await venueSearchService.autocomplete(query.q, query.limit);
+
+  res.json({ suggestions });
+}));
+
+// GET /venues/map - Clustered map markers for a viewport
+router.get('/map', asyncHandler(async (req, res) => {
+  const { minLat, maxLat, minLng, maxLng, zoom } = req.query;
+
+  const bounds = {
+    minLatitude: parseFloat(minLat as string),
+    maxLatitude: parseFloat(maxLat as string),
+    minLongitude: parseFloat(minLng as string),
+    maxLongitude: parseFloat(maxLng as string)
+  };
+  const zoomLevel = parseInt(zoom as string);
+
+  if (
+    !isValidLatitude(bounds.minLatitude) || !isValidLatitude(bounds.maxLatitude) ||
+    !isValidLongitude(bounds.minLongitude) || !isValidLongitude(bounds.maxLongitude) ||
+    bounds.minLatitude > bounds.maxLatitude
+  ) {
+    throw createError('minLat, maxLat, minLng and maxLng must describe a valid viewport', 400);
+  }
+
+  if (!Number.isInteger(zoomLevel) || zoomLevel < 0 || zoomLevel > 22) {
+    throw createError('zoom must be an integer between 0 and 22', 400);
+  }
+
+  const markers = await venueMapService.getMarkers(bounds, zoomLevel);
+
+  res.json({
+    zoom: zoomLevel,
+    clustered: zoomLevel < MAX_CLUSTER_ZOOM,
+    markers
+  });
+}));
+
 // GET /venues/:id - Get single venue
-router.get('/:id', asyncHandler(async (req, res) => {
+router.get('/:id', asyncHandler(async (req: AuthenticatedRequest, res) => {
   const { id } = req.params;
 
   const venue = await prisma.venue.findUnique({
@@ -123,15 +384,38 @@ router.get('/:id', asyncHandler(async (req, res) => {
           startTime: { gte: new Date() }
         },
         orderBy: { startTime: 'asc' }
+      },
+      categories: {
+        include: {
+          category: { select: { id: true, name: true, slug: true, parentId: true } }
+        },
+        orderBy: { isPrimary: 'desc' }
       }
     }
   });
 
-  if (!venue) {
+  // Archived venues are only visible to admins
+  if (!venue || (venue.archivedAt && req.user?.role !== 'ADMIN')) {
     throw createError('Venue not found', 404);
   }
 
-  res.json({ venue });
+  const now = new Date();
+  const [holidays, recentSnapshots] = await Promise.all([
+    openingHoursService.holidayDates(),
+    prisma.busySnapshot.findMany(recentSnapshotsQuery(id))
+  ]);
+  const openingStatus = openingHoursService.statusFor(venue, now, holidays);
+
+  res.json({
+    venue: {
+      ...toPublicVenue(venue),
+      ...currentBusyStatus(recentSnapshots, now),
+      isOpen: openingStatus?.isOpen ?? null,
+      opensAt: openingStatus?.opensAt ?? null,
+      closesAt: openingStatus?.closesAt ?? null,
+      closingSoon: openingStatus?.closingSoon ?? false
+    }
+  });
 }));
 
 // GET /venues/:id/busy - Get venue busy data
@@ -139,8 +423,8 @@ router.get('/:id/busy', asyncHandler(async (req, res) => {
   const { id } = req.params;
   const { hours = 24 } = req.query;
 
-  const venue = await prisma.venue.findUnique({
-    where: { id }
+  const venue = await prisma.venue.findFirst({
+    where: { id, archivedAt: null }
   });
 
   if (!venue) {
@@ -148,29 +432,97 @@ router.get('/:id/busy', asyncHandler(async (req, res) => {
   }
 
   const hoursBack = parseInt(hours as string);
-  const snapshots = await prisma.busySnapshot.findMany({
-    where: {
-      venueId: id,
-      timestamp: {
-        gte: new Date(Date.now() - hoursBack * 60 * 60 * 1000)
-      }
-    },
-    orderBy: { timestamp: 'asc' }
-  });
+  const [snapshots, recentSnapshots] = await Promise.all([
+    prisma.busySnapshot.findMany({
+      where: {
+        venueId: id,
+        timestamp: {
+          gte: new Date(Date.now() - hoursBack * 60 * 60 * 1000)
+        }
+      },
+      orderBy: { timestamp: 'asc' }
+    }),
+    prisma.busySnapshot.findMany(recentSnapshotsQuery(id))
+  ]);
 
   res.json({
     venueId: id,
+    ...currentBusyStatus(recentSnapshots),
     snapshots,
     lastUpdated: new Date()
   });
 }));
 
+// GET /venues/:id/busy/forecast - Predicted busy level for the coming hours
+router.get('/:id/busy/forecast', asyncHandler(async (req, res) => {
+  const { error, value: query } = validateBusyForecastQuery(req.query);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const forecast = await busyForecastService.forecast(req.params.id, query.hours);
+
+  res.json({
+    venueId: req.params.id,
+    forecast,
+    generatedAt: new Date()
+  });
+}));
+
+// POST /venues/:id/busy/reports - Tell us how busy a venue is right now
+router.post('/:id/busy/reports', requireVerifiedEmail, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id: venueId } = req.params;
+  const { error, value } = validateReportBusyStatus(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const venue = await prisma.venue.findFirst({
+    where: { id: venueId, archivedAt: null },
+    select: { capacity: true }
+  });
+
+  if (!venue) {
+    throw createError('Venue not found', 404);
+  }
+
+  const recentReport = await prisma.busySnapshot.findFirst({
+    where: {
+      venueId,
+      reportedById: req.user!.id,
+      timestamp: { gte: new Date(Date.now() - CROWD_REPORT_INTERVAL_MS) }
+    }
+  });
+
+  if (recentReport) {
+    throw createError('You reported on this venue recently', 429);
+  }
+
+  const percentage = statusPercentage(value.status);
+  await prisma.busySnapshot.create({
+    data: {
+      venueId,
+      occupancyCount: Math.round((percentage / 100) * venue.capacity),
+      occupancyPercentage: percentage,
+      status: value.status,
+      source: 'crowd',
+      reportedById: req.user!.id
+    }
+  });
+  await busyStatusNotifier.venuesChanged([venueId]);
+
+  res.status(201).json({
+    message: 'Thanks for the report',
+    ...currentBusyStatus(await prisma.busySnapshot.findMany(recentSnapshotsQuery(venueId)))
+  });
+}));
+
 // GET /venues/:id/busy/aggregates - Get venue busy aggregates
 router.get('/:id/busy/aggregates', asyncHandler(async (req, res) => {
   const { id } = req.params;
 
-  const venue = await prisma.venue.findUnique({
-    where: { id }
+  const venue = await prisma.venue.findFirst({
+    where: { id, archivedAt: null }
   });
 
   if (!venue) {
@@ -182,15 +534,19 @@ router.get('/:id/busy/aggregates', asyncHandler(async (req, res) => {
   const snapshots = await prisma.busySnapshot.findMany({
     where: {
       venueId: id,
+      source: { in: OBSERVED_SOURCES },
       timestamp: { gte: thirtyDaysAgo }
     }
   });
 
+  // Hours and days are in the venue's local time
+  const localTimes = snapshots.map(snapshot => toLocalDateTime(snapshot.timestamp, venue.timezone));
+
   // Calculate hourly averages
   const hourlyData = new Map<number, { total: number; count: number; peak: number }>();
 
-  snapshots.forEach(snapshot => {
-    const hour = snapshot.timestamp.getHours();
+  snapshots.forEach((snapshot, index) => {
+    const hour = localTimes[index].hour;
     const current = hourlyData.get(hour) || { total: 0, count: 0, peak: 0 };
 
     current.total += snapshot.occupancyPercentage;
@@ -212,8 +568,8 @@ router.get('/:id/busy/aggregates', asyncHandler(async (req, res) => {
   // Calculate daily averages
   const dailyData = new Map<number, { total: number; count: number }>();
 
-  snapshots.forEach(snapshot => {
-    const dayOfWeek = snapshot.timestamp.getDay();
+  snapshots.forEach((snapshot, index) => {
+    const dayOfWeek = localTimes[index].weekday;
     const current = dailyData.get(dayOfWeek) || { total: 0, count: 0 };
 
     current.total += snapshot.occupancyPercentage;
@@ -237,6 +593,7 @@ router.get('/:id/busy/aggregates', asyncHandler(async (req, res) => {
 
   res.json({
     venueId: id,
+    timezone: venue.timezone,
     hourlyAverages,
     dailyAverages,
     weeklyAverages: [] // Would calculate weekly trends over longer periods
@@ -250,13 +607,11 @@ router.post('/', requireRole(['ADMIN']), asyncHandler(async (req: AuthenticatedR
     throw createError(error.details[0].message, 400);
   }
 
-  const venue = await prisma.venue.create({
-    data: value
-  });
+  const venue = await venueRevisionService.createVenue(value, revisionAuthor(req));
 
   res.status(201).json({
     message: 'Venue created successfully',
-    venue
+    venue: toPublicVenue(venue)
   });
 }));
 
@@ -268,21 +623,155 @@ router.put('/:id', requireRole(['ADMIN']), asyncHandler(async (req: Authenticate
     throw createError(error.details[0].message, 400);
   }
 
-  const venue = await prisma.venue.update({
-    where: { id },
-    data: value
-  });
+  const { venue, revision } = await venueRevisionService.updateVenue(id, value, revisionAuthor(req));
 
   res.json({
     message: 'Venue updated successfully',
-    venue
+    venue: toPublicVenue(venue),
+    revision
+  });
+}));
+
+// GET /venues/:id/revisions - Change history, newest first (Admin only)
+router.get('/:id/revisions', requireRole(['ADMIN']), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { page = 1, limit = 20 } = req.query;
+
+  const { revisions, total } = await venueRevisionService.listRevisions(id, Number(page), Number(limit));
+
+  res.json({
+    revisions,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    }
   });
 }));
 
-// POST /venues/:id/deals - Create deal (Venue Manager or Admin)
+// POST /venues/:id/revisions/:revisionId/revert - Undo every change made after a revision (Admin only)
+router.post('/:id/revisions/:revisionId/revert',
+  requireRole(['ADMIN']),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id, revisionId } = req.params;
+
+    const { venue, revision } = await venueRevisionService.revert(id, revisionId, revisionAuthor(req));
+
+    res.json({
+      message: 'Venue reverted successfully',
+      venue: toPublicVenue(venue),
+      revision
+    });
+  })
+);
+
+// DELETE /venues/:id - Archive a venue (Admin only). It's purged after the retention window.
+router.delete('/:id', requireRole(['ADMIN']), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { error, value } = validateArchiveVenue(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  await venueLifecycleService.archive(id, value.reason, req.user!.id);
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'VENUE_ARCHIVED',
+    resource: 'venues',
+    resourceId: id,
+    metadata: { reason: value.reason }
+  });
+
+  res.json({
+    message: 'Venue archived successfully',
+    purgeAfter: venueLifecycleService.purgeDateFor(new Date())
+  });
+}));
+
+// POST /venues/:id/restore - Restore an archived venue (Admin only)
+router.post('/:id/restore', requireRole(['ADMIN']), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  await venueLifecycleService.restore(id);
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'VENUE_RESTORED',
+    resource: 'venues',
+    resourceId: id
+  });
+
+  res.json({
+    message: 'Venue restored successfully'
+  });
+}));
+
+// GET /venues/:id/devices - Door counters and clicker apps (Admin or venue staff with devices:manage)
+router.get('/:id/devices', requireVenuePermission('devices:manage'), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const devices = await occupancyService.listDevices(req.params.id);
+
+  res.json({
+    devices
+  });
+}));
+
+// POST /venues/:id/devices - Register a counting device. Its key is only shown once.
+router.post('/:id/devices', requireVenuePermission('devices:manage'), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id: venueId } = req.params;
+  const { error, value } = validateCreateOccupancyDevice(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const venue = await prisma.venue.findUnique({ where: { id: venueId } });
+  if (!venue) {
+    throw createError('Venue not found', 404);
+  }
+
+  const { device, key } = await occupancyService.createDevice(venueId, value.name, req.user!.id);
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'OCCUPANCY_DEVICE_CREATED',
+    resource: 'venues',
+    resourceId: venueId,
+    metadata: { deviceId: device.id }
+  });
+
+  res.status(201).json({
+    message: 'Device registered successfully',
+    device,
+    key
+  });
+}));
+
+// DELETE /venues/:id/devices/:deviceId - Revoke a device's key
+router.delete('/:id/devices/:deviceId',
+  requireVenuePermission('devices:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId, deviceId } = req.params;
+
+    await occupancyService.revokeDevice(venueId, deviceId);
+
+    await logAuditEvent(req, {
+      userId: req.user!.id,
+      action: 'OCCUPANCY_DEVICE_REVOKED',
+      resource: 'venues',
+      resourceId: venueId,
+      metadata: { deviceId }
+    });
+
+    res.json({
+      message: 'Device revoked successfully'
+    });
+  })
+);
+
+// POST /venues/:id/deals - Create deal (venue staff with deals:create, or Admin)
 router.post('/:id/deals',
-  requireRole(['VENUE_MANAGER', 'ADMIN']),
-  requireVenueAccess(),
+  requireVenuePermission('deals:create'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { id: venueId } = req.params;
     const { error, value } = validateCreateDeal(req.body);
@@ -305,10 +794,9 @@ router.post('/:id/deals',
   })
 );
 
-// POST /venues/:id/events - Create event (Venue Manager or Admin)
+// POST /venues/:id/events - Create event (venue staff with events:create, or Admin)
 router.post('/:id/events',
-  requireRole(['VENUE_MANAGER', 'ADMIN']),
-  requireVenueAccess(),
+  requireVenuePermission('events:create'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { id: venueId } = req.params;
     const { error, value } = validateCreateEvent(req.body);
@@ -331,10 +819,10 @@ router.post('/:id/events',
   })
 );
 
-// POST /venues/:id/posts - Create post (Venue Manager or Admin)
+// POST /venues/:id/posts - Create post (venue staff with posts:create, or Admin)
 router.post('/:id/posts',
-  requireRole(['VENUE_MANAGER', 'ADMIN']),
-  requireVenueAccess(),
+  requireVenuePermission('posts:create'),
+  requireVerifiedEmail,
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { id: venueId } = req.params;
     const { error, value } = validateCreatePost(req.body);
@@ -357,16 +845,15 @@ router.post('/:id/posts',
   })
 );
 
-// GET /venues/:id/analytics/overview - Get venue analytics (Venue Manager or Admin)
+// GET /venues/:id/analytics/overview - Get venue analytics (venue staff with analytics:read, or Admin)
 router.get('/:id/analytics/overview',
-  requireRole(['VENUE_MANAGER', 'ADMIN']),
-  requireVenueAccess(),
+  requireVenuePermission('analytics:read'),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { id: venueId } = req.params;
 
     // Get venue
-    const venue = await prisma.venue.findUnique({
-      where: { id: venueId }
+    const venue = await prisma.venue.findFirst({
+      where: { id: venueId, archivedAt: null }
     });
 
     if (!venue) {
@@ -380,6 +867,7 @@ router.get('/:id/analytics/overview',
       prisma.busySnapshot.findMany({
         where: {
           venueId,
+          source: { in: OBSERVED_SOURCES },
           timestamp: { gte: thirtyDaysAgo }
         }
       }),
@@ -409,14 +897,19 @@ router.get('/:id/analytics/overview',
       ? snapshots.reduce((sum, s) => sum + s.occupancyPercentage, 0) / snapshots.length
       : 0;
 
-    // Find peak hours
+    // Find peak hours and days in the venue's local time
     const hourlyData = new Map<number, number[]>();
+    const dailyData = new Map<number, number[]>();
     snapshots.forEach(snapshot => {
-      const hour = snapshot.timestamp.getHours();
+      const { hour, weekday } = toLocalDateTime(snapshot.timestamp, venue.timezone);
       if (!hourlyData.has(hour)) {
         hourlyData.set(hour, []);
       }
       hourlyData.get(hour)!.push(snapshot.occupancyPercentage);
+      if (!dailyData.has(weekday)) {
+        dailyData.set(weekday, []);
+      }
+      dailyData.get(weekday)!.push(snapshot.occupancyPercentage);
     });
 
     const peakHours = Array.from(hourlyData.entries())
@@ -428,13 +921,23 @@ router.get('/:id/analytics/overview',
       .slice(0, 3)
       .map(h => `${h.hour}:00`);
 
+    const popularDays = Array.from(dailyData.entries())
+      .map(([day, percentages]) => ({
+        day,
+        average: percentages.reduce((sum, p) => sum + p, 0) / percentages.length
+      }))
+      .sort((a, b) => b.average - a.average)
+      .slice(0, 2)
+      .map(d => DAY_NAMES[d.day]);
+
     res.json({
       venueId,
       totalVisitors,
       averageOccupancy: Math.round(averageOccupancy),
       peakHours,
-      popularDays: ['Friday', 'Saturday'], // Would calculate from data
+      popularDays,
       period: '30 days',
+      timezone: venue.timezone,
       dealsCreated: deals,
       eventsCreated: events,
       postsCreated: posts
@@ -442,4 +945,422 @@ router.get('/:id/analytics/overview',
   })
 );
 
+// GET /venues/:id/staff - List venue staff and their permissions
+router.get('/:id/staff',
+  requireVenuePermission('staff:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId } = req.params;
+
+    const memberships = await prisma.venueMembership.findMany({
+      where: { venueId },
+      include: {
+        user: {
+          select: { id: true, email: true, firstName: true, lastName: true, profileImage: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      venueId,
+      staff: memberships.map(membership => ({
+        user: membership.user,
+        role: membership.role,
+        permissions: effectivePermissions(membership),
+        extraPermissions: membership.permissions,
+        createdAt: membership.createdAt
+      }))
+    });
+  })
+);
+
+// PUT /venues/:id/staff/:userId - Add a staff member or change their role/permissions
+router.put('/:id/staff/:userId',
+  requireVenuePermission('staff:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId, userId } = req.params;
+    const { error, value } = validateUpdateStaffMember(req.body);
+    if (error) {
+      throw createError(error.details[0].message, 400);
+    }
+
+    const [venue, user, existing] = await Promise.all([
+      prisma.venue.findUnique({ where: { id: venueId } }),
+      prisma.user.findUnique({ where: { id: userId } }),
+      prisma.venueMembership.findUnique({
+        where: { userId_venueId: { userId, venueId } }
+      })
+    ]);
+
+    if (!venue) {
+      throw createError('Venue not found', 404);
+    }
+
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+
+    await ensureCanGrant(req, venueId, value, existing);
+
+    if (existing?.role === 'OWNER' && value.role !== 'OWNER') {
+      await ensureAnotherOwner(venueId, userId);
+    }
+
+    const membership = await prisma.venueMembership.upsert({
+      where: { userId_venueId: { userId, venueId } },
+      update: { role: value.role, permissions: value.permissions },
+      create: { userId, venueId, role: value.role, permissions: value.permissions }
+    });
+
+    await logAuditEvent(req, {
+      userId: req.user!.id,
+      action: existing ? 'VENUE_STAFF_UPDATED' : 'VENUE_STAFF_ADDED',
+      resource: 'venues',
+      resourceId: venueId,
+      metadata: {
+        staffUserId: userId,
+        role: membership.role,
+        permissions: membership.permissions,
+        previousRole: existing?.role ?? null
+      }
+    });
+
+    res.status(existing ? 200 : 201).json({
+      message: 'Staff member saved successfully',
+      membership: {
+        ...membership,
+        permissions: effectivePermissions(membership),
+        extraPermissions: membership.permissions
+      }
+    });
+  })
+);
+
+// DELETE /venues/:id/staff/:userId - Remove a staff member
+router.delete('/:id/staff/:userId',
+  requireVenuePermission('staff:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId, userId } = req.params;
+
+    const membership = await prisma.venueMembership.findUnique({
+      where: { userId_venueId: { userId, venueId } }
+    });
+
+    if (!membership) {
+      throw createError('Staff member not found', 404);
+    }
+
+    await ensureCanGrant(req, venueId, null, membership);
+
+    if (membership.role === 'OWNER') {
+      await ensureAnotherOwner(venueId, userId);
+    }
+
+    await prisma.venueMembership.delete({
+      where: { id: membership.id }
+    });
+
+    await logAuditEvent(req, {
+      userId: req.user!.id,
+      action: 'VENUE_STAFF_REMOVED',
+      resource: 'venues',
+      resourceId: venueId,
+      metadata: { staffUserId: userId, role: membership.role }
+    });
+
+    res.json({
+      message: 'Staff member removed successfully'
+    });
+  })
+);
+
+// POST /venues/:id/staff/invites - Invite someone to the venue's staff by email
+router.post('/:id/staff/invites',
+  requireVenuePermission('staff:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId } = req.params;
+    const { error, value } = validateCreateVenueInvite(req.body);
+    if (error) {
+      throw createError(error.details[0].message, 400);
+    }
+
+    const [venue, inviter] = await Promise.all([
+      prisma.venue.findUnique({ where: { id: venueId } }),
+      prisma.user.findUnique({ where: { id: req.user!.id } })
+    ]);
+
+    if (!venue) {
+      throw createError('Venue not found', 404);
+    }
+
+    await ensureCanGrant(req, venueId, value);
+
+    const email = value.email.toLowerCase();
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // A new invite replaces any pending one for the same email
+    const [, invite] = await prisma.$transaction([
+      prisma.venueInvite.updateMany({
+        where: { venueId, email, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() }
+      }),
+      prisma.venueInvite.create({
+        data: {
+          venueId,
+          email,
+          role: value.role,
+          permissions: value.permissions,
+          tokenHash: hashToken(token),
+          invitedById: req.user!.id,
+          expiresAt: new Date(Date.now() + VENUE_INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000)
+        },
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          permissions: true,
+          expiresAt: true,
+          createdAt: true
+        }
+      })
+    ]);
+
+    try {
+      const inviterName = inviter ? `${inviter.firstName} ${inviter.lastName}`.trim() : 'A venue manager';
+      await mailer.sendVenueInvite(email, venue.name, inviterName, value.role, token);
+    } catch (mailError) {
+      console.error('Failed to send venue invite email:', mailError);
+    }
+
+    res.status(201).json({
+      message: 'Invitation sent successfully',
+      invite
+    });
+  })
+);
+
+// GET /venues/:id/staff/invites - List pending invitations
+router.get('/:id/staff/invites',
+  requireVenuePermission('staff:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId } = req.params;
+
+    const invites = await prisma.venueInvite.findMany({
+      where: {
+        venueId,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        permissions: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: {
+          select: { id: true, firstName: true, lastName: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ venueId, invites });
+  })
+);
+
+// DELETE /venues/:id/staff/invites/:inviteId - Revoke a pending invitation
+router.delete('/:id/staff/invites/:inviteId',
+  requireVenuePermission('staff:manage'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const { id: venueId, inviteId } = req.params;
+
+    const { count } = await prisma.venueInvite.updateMany({
+      where: { id: inviteId, venueId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (count === 0) {
+      throw createError('Invitation not found', 404);
+    }
+
+    res.json({
+      message: 'Invitation revoked successfully'
+    });
+  })
+);
+
+// POST /venues/invites/accept - Accept a staff invitation sent to the current user's email
+router.post('/invites/accept', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { error, value } = validateAcceptVenueInvite(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const invite = await prisma.venueInvite.findUnique({
+    where: { tokenHash: hashToken(value.token) }
+  });
+
+  if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt < new Date()) {
+    throw createError('Invalid or expired invitation', 400);
+  }
+
+  if (invite.email !== req.user!.email.toLowerCase()) {
+    throw createError('This invitation was sent to a different email address', 403);
+  }
+
+  const existing = await prisma.venueMembership.findUnique({
+    where: { userId_venueId: { userId: req.user!.id, venueId: invite.venueId } }
+  });
+
+  // Accepting never demotes a member; extra permissions they already have are kept
+  if (existing && isHigherRole(existing.role, invite.role)) {
+    throw createError('You already have a higher role at this venue', 409);
+  }
+  const role = invite.role;
+  const permissions = Array.from(new Set([...(existing?.permissions || []), ...invite.permissions]));
+
+  const membership = await prisma.$transaction(async tx => {
+    // Claimed conditionally so an invitation can only be accepted once
+    const now = new Date();
+    const { count } = await tx.venueInvite.updateMany({
+      where: { id: invite.id, acceptedAt: null, revokedAt: null, expiresAt: { gt: now } },
+      data: { acceptedAt: now, acceptedById: req.user!.id }
+    });
+
+    if (count !== 1) {
+      throw createError('Invalid or expired invitation', 400);
+    }
+
+    return tx.venueMembership.upsert({
+      where: { userId_venueId: { userId: req.user!.id, venueId: invite.venueId } },
+      update: { role, permissions },
+      create: {
+        userId: req.user!.id,
+        venueId: invite.venueId,
+        role,
+        permissions
+      }
+    });
+  });
+
+  await logAuditEvent(req, {
+    userId: req.user!.id,
+    action: 'VENUE_INVITE_ACCEPTED',
+    resource: 'venues',
+    resourceId: invite.venueId,
+    metadata: { inviteId: invite.id, role, invitedById: invite.invitedById }
+  });
+
+  res.json({
+    message: 'Invitation accepted successfully',
+    membership: {
+      ...membership,
+      permissions: effectivePermissions(membership),
+      extraPermissions: membership.permissions
+    }
+  });
+}));
+
+// POST /venues/:id/claims - Ask to be made owner of a venue listing
+router.post('/:id/claims', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id: venueId } = req.params;
+  const { error, value } = validateCreateVenueClaim(req.body);
+  if (error) {
+    throw createError(error.details[0].message, 400);
+  }
+
+  const venue = await prisma.venue.findUnique({
+    where: { id: venueId }
+  });
+
+  if (!venue) {
+    throw createError('Venue not found', 404);
+  }
+
+  const [membership, pendingClaim] = await Promise.all([
+    prisma.venueMembership.findUnique({
+      where: { userId_venueId: { userId: req.user!.id, venueId } }
+    }),
+    prisma.venueClaim.findFirst({
+      where: { venueId, userId: req.user!.id, status: 'PENDING' }
+    })
+  ]);
+
+  if (membership?.role === 'OWNER') {
+    throw createError('You already own this venue', 409);
+  }
+
+  if (pendingClaim) {
+    throw createError('You already have a pending claim for this venue', 409);
+  }
+
+  const claim = await prisma.venueClaim.create({
+    data: {
+      venueId,
+      userId: req.user!.id,
+      evidence: value.evidence,
+      evidenceUrls: value.evidenceUrls,
+      contactPhone: value.contactPhone
+    }
+  });
+
+  res.status(201).json({
+    message: 'Claim submitted for review',
+    claim
+  });
+}));
+
+// Venues without busy data sort below closed ones
+function busyRank(status: BusyStatus | null): number {
+  return status ? BUSY_STATUS_ORDER.indexOf(status) : -1;
+}
+
+// Staff edits are attributed to the manager source, admin edits to admin
+function revisionAuthor(req: AuthenticatedRequest): RevisionAuthor {
+  return {
+    source: req.user!.role === 'ADMIN' ? 'ADMIN' : 'MANAGER',
+    userId: req.user!.id
+  };
+}
+
+// Staff managers can't hand out more than they have: admins may grant
+// anything, owners anything at their venue, and everyone else only
+// non-owner roles and permissions they hold. Only owners change or remove
+// another owner.
+async function ensureCanGrant(
+  req: AuthenticatedRequest,
+  venueId: string,
+  grant: { role: VenueStaffRole; permissions: string[] } | null,
+  current?: { role: VenueStaffRole } | null
+) {
+  if (req.user!.role === 'ADMIN') {
+    return;
+  }
+
+  const grantor = await prisma.venueMembership.findUnique({
+    where: { userId_venueId: { userId: req.user!.id, venueId } }
+  });
+
+  if (
+    !grantor ||
+    (current?.role === 'OWNER' && grantor.role !== 'OWNER') ||
+    (grant && !canGrant(grantor, grant))
+  ) {
+    throw createError('You can only grant roles and permissions you hold yourself', 403);
+  }
+}
+
+// A venue must always keep at least one owner who can manage staff
+async function ensureAnotherOwner(venueId: string, excludingUserId: string) {
+  const otherOwners = await prisma.venueMembership.count({
+    where: { venueId, role: 'OWNER', userId: { not: excludingUserId } }
+  });
+
+  if (otherOwners === 0) {
+    throw createError('A venue must have at least one owner', 409);
+  }
+}
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,69 @@
+import 'dotenv/config';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { VENUE_FILE_FORMATS, VenueFileFormat, VenueImportService } from '../services/venueImport';
+
+// Bulk venue import/export from the command line. After `npm run build`:
+//
+//   npm run venues -- import data/venues.json --dry-run
+//   npm run venues -- import venues.csv
+//   npm run venues -- export venues.csv
+//
+// The format comes from the file extension unless --format=json|csv is given.
+
+const USAGE = 'Usage: venues <import|export> <file> [--dry-run] [--format=json|csv]';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [command, file] = args.filter(arg => !arg.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+  const formatArg = args.find(arg => arg.startsWith('--format='))?.slice('--format='.length);
+
+  if (!file || (command !== 'import' && command !== 'export')) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const format = (formatArg || path.extname(file).slice(1).toLowerCase()) as VenueFileFormat;
+  if (!VENUE_FILE_FORMATS.includes(format)) {
+    console.error(`Can't tell the format of ${file}; pass --format=json or --format=csv`);
+    return 1;
+  }
+
+  const venueImportService = new VenueImportService();
+
+  if (command === 'export') {
+    await fs.writeFile(file, await venueImportService.exportVenues(format));
+    console.log(`Exported venues to ${file}`);
+    return 0;
+  }
+
+  const rows = venueImportService.readRows(format, await fs.readFile(file, 'utf8'));
+  const report = await venueImportService.importRows(rows, {
+    dryRun,
+    author: { source: 'IMPORT' }
+  });
+
+  for (const row of report.rows) {
+    const label = `Row ${row.row}${row.name ? ` (${row.name})` : ''}`;
+    if (row.action === 'error') {
+      console.log(`✗ ${label}: ${row.errors!.join('; ')}`);
+    } else if (row.action === 'update') {
+      console.log(`~ ${label}: ${row.changedFields!.join(', ')}`);
+    } else if (row.action === 'create') {
+      console.log(`+ ${label}`);
+    }
+    row.warnings?.forEach(warning => console.log(`  ! ${warning}`));
+  }
+
+  const { create, update, unchanged, error } = report.summary;
+  console.log(`\n${dryRun ? 'Dry run: would create' : 'Created'} ${create}, ${dryRun ? 'update' : 'updated'} ${update}, ${unchanged} unchanged, ${error} failed`);
+  return error > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((e) => {
+    console.error('❌ Venue import/export failed:', e.message);
+    process.exit(1);
+  });
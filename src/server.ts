@@ -3,16 +3,22 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { config } from 'dotenv';
 import { PrismaClient } from '@prisma/client';
-import { authMiddleware } from './middleware/auth';
-import { rateLimitMiddleware } from './middleware/rateLimiting';
+import { authMiddleware, queryTokenMiddleware, requireRole } from './middleware/auth';
+import { deviceRateLimitMiddleware, rateLimitMiddleware } from './middleware/rateLimiting';
 import { errorHandler } from './middleware/errorHandler';
 import { auditLogger } from './middleware/auditLogger';
+import { deviceAuthMiddleware } from './middleware/deviceAuth';
 
 // Route imports
 import authRoutes from './routes/auth';
 import venueRoutes from './routes/venues';
 import userRoutes from './routes/users';
 import feedRoutes from './routes/feed';
+import adminRoutes from './routes/admin';
+import categoryRoutes from './routes/categories';
+import occupancyRoutes from './routes/occupancy';
+import streamRoutes from './routes/stream';
+import { registerJobs, scheduler } from './jobs';
 
 // Load environment variables
 config();
@@ -54,8 +60,12 @@ app.get('/health', (req, res) => {
 // API routes
 app.use('/auth', authRoutes);
 app.use('/venues', authMiddleware, venueRoutes);
+app.use('/categories', authMiddleware, categoryRoutes);
 app.use('/users', authMiddleware, userRoutes);
 app.use('/feed', authMiddleware, feedRoutes);
+app.use('/admin', authMiddleware, requireRole(['ADMIN']), adminRoutes);
+app.use('/occupancy', deviceAuthMiddleware, deviceRateLimitMiddleware, occupancyRoutes);
+app.use('/stream', queryTokenMiddleware, authMiddleware, streamRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -71,21 +81,31 @@ app.use('*', (req, res) => {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT. Graceful shutdown...');
+  scheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM. Graceful shutdown...');
+  scheduler.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
+// Background jobs (set JOBS_ENABLED=false on instances that shouldn't run them)
+registerJobs();
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+
+  if (process.env.JOBS_ENABLED !== 'false') {
+    scheduler.start();
+    console.log('⏱️  Background jobs started');
+  }
 });
 
 export { app, prisma };
\ No newline at end of file
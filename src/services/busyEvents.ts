@@ -0,0 +1,93 @@
+import { BusyStatus } from '@prisma/client';
+
+// How many recent events the in-memory bus keeps for clients resuming a stream
+const BUFFER_SIZE = parseInt(process.env.BUSY_STREAM_BUFFER_SIZE || '1000');
+
+// A venue's busy status changed. Carries the position so viewport
+// subscribers can be matched without a lookup.
+export interface BusyStatusEvent {
+  id: string;
+  venueId: string;
+  latitude: number;
+  longitude: number;
+  currentStatus: BusyStatus | null;
+  currentOccupancy: number;
+  occupancyPercentage: number;
+  busyConfidence: number;
+  busyAsOf: Date | null;
+}
+
+export type BusyStatusUpdate = Omit<BusyStatusEvent, 'id'>;
+
+// Fan-out for busy status changes. Instances publish to the bus and every
+// open stream subscribes to it. Running several instances needs a
+// pub/sub-backed implementation (e.g. Redis streams) behind this interface.
+export interface BusyEventBus {
+  publish(update: BusyStatusUpdate): Promise<BusyStatusEvent>;
+  // Returns an unsubscribe function
+  subscribe(listener: (event: BusyStatusEvent) => void): () => void;
+  // Events after the given ID, oldest first, or null when the bus can't tell
+  // (the ID is unknown or too old) and the client has to start over
+  since(eventId: string): Promise<BusyStatusEvent[] | null>;
+  // The last event published for a venue, if the bus still knows it
+  latest(venueId: string): Promise<BusyStatusEvent | null>;
+}
+
+// Single-instance bus. Event IDs are `<epoch>-<sequence>`, where the epoch is
+// when this process started, so IDs from before a restart can't be resumed.
+export class InMemoryBusyEventBus implements BusyEventBus {
+  private epoch = Date.now().toString(36);
+  private sequence = 0;
+  private buffer: BusyStatusEvent[] = [];
+  private latestByVenue = new Map<string, BusyStatusEvent>();
+  private listeners = new Set<(event: BusyStatusEvent) => void>();
+
+  async publish(update: BusyStatusUpdate): Promise<BusyStatusEvent> {
+    const event = { id: `${this.epoch}-${++this.sequence}`, ...update };
+
+    this.buffer.push(event);
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+    this.latestByVenue.set(event.venueId, event);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Busy event listener failed:', error);
+      }
+    }
+    return event;
+  }
+
+  subscribe(listener: (event: BusyStatusEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async since(eventId: string): Promise<BusyStatusEvent[] | null> {
+    const [epoch, sequence] = eventId.split('-');
+    const after = parseInt(sequence, 10);
+    if (epoch !== this.epoch || !Number.isInteger(after) || after > this.sequence) {
+      return null;
+    }
+
+    const missed = this.buffer.filter(event => this.sequenceOf(event) > after);
+    // Anything between the ID and the oldest buffered event has been dropped
+    const oldest = this.buffer.length > 0 ? this.sequenceOf(this.buffer[0]) : this.sequence + 1;
+    return oldest <= after + 1 ? missed : null;
+  }
+
+  async latest(venueId: string): Promise<BusyStatusEvent | null> {
+    return this.latestByVenue.get(venueId) || null;
+  }
+
+  private sequenceOf(event: BusyStatusEvent): number {
+    return parseInt(event.id.split('-')[1], 10);
+  }
+}
+
+export const busyEventBus: BusyEventBus = new InMemoryBusyEventBus();
@@ -0,0 +1,204 @@
+import { BusyStatus, Prisma, PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import { WeeklyPopularity, parsePopularTimes } from '../utils/popularTimes';
+import { WEEKDAYS, fromLocalTime, toLocalDateTime } from '../utils/timezone';
+import { OBSERVED_SOURCES, deriveBusyStatus } from './busyStatus';
+import { OpeningHoursService } from './openingHours';
+import { SerpAPIService } from './serpApi';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+// How far back the venue's own snapshots are used
+const HISTORY_WEEKS = 8;
+// A week's samples count half as much as the following week's
+const HISTORY_HALF_LIFE_WEEKS = 2;
+// Weighted samples at which history and the baseline count equally
+const BASELINE_WEIGHT = 1.5;
+// Occupancy assumed during an event without a capacity of its own
+const EVENT_PERCENT = 70;
+
+// How much a prediction can be trusted when it comes from each basis alone
+const CONFIDENCE = {
+  serpBaseline: 0.5,
+  categoryBaseline: 0.25,
+  historyMax: 0.95,
+  historyMin: 0.5,
+  openingHours: 0.9
+};
+
+export type ForecastBasis = 'history' | 'blended' | 'baseline' | 'opening_hours' | 'event';
+
+export interface BusyForecastHour {
+  time: Date;
+  localTime: string;
+  predictedOccupancy: number;
+  occupancyPercentage: number;
+  status: BusyStatus;
+  confidence: number;
+  basis: ForecastBasis;
+  events: { id: string; title: string }[];
+}
+
+interface HourStats {
+  weightedTotal: number;
+  weightedSquares: number;
+  weight: number;
+}
+
+// Hourly busy predictions. Each hour starts from the venue's own snapshots
+// for the same venue-local weekday and hour, recent weeks weighted more, and
+// leans on popular times (or category estimates) until there's enough
+// history. Opening hours and events override the result.
+export class BusyForecastService {
+  private serpApiService = new SerpAPIService();
+  private openingHoursService = new OpeningHoursService();
+
+  async forecast(venueId: string, hours: number, at: Date = new Date()): Promise<BusyForecastHour[]> {
+    const venue = await prisma.venue.findFirst({
+      where: { id: venueId, archivedAt: null },
+      select: {
+        id: true,
+        category: true,
+        capacity: true,
+        timezone: true,
+        openingHours: true,
+        openingSchedule: true,
+        popularTimes: { select: { source: true, hours: true } }
+      }
+    });
+
+    if (!venue) {
+      throw createError('Venue not found', 404);
+    }
+
+    const slots = hourSlots(at, hours, venue.timezone);
+    const end = new Date(slots[slots.length - 1].getTime() + HOUR_MS);
+
+    const [history, events, holidays] = await Promise.all([
+      historyByHour(venueId, venue.timezone, at),
+      prisma.event.findMany({
+        where: { venueId, isActive: true, startTime: { lt: end }, endTime: { gt: slots[0] } },
+        select: { id: true, title: true, capacity: true, startTime: true, endTime: true },
+        orderBy: { startTime: 'asc' }
+      }),
+      this.openingHoursService.holidayDates()
+    ]);
+
+    const serpBaseline = venue.popularTimes?.source === 'serp';
+    const baseline = (venue.popularTimes?.hours as unknown as WeeklyPopularity | undefined)
+      || parsePopularTimes(this.serpApiService.generateEstimatedPopularTimes(venue.category))!;
+    const baselineConfidence = serpBaseline ? CONFIDENCE.serpBaseline : CONFIDENCE.categoryBaseline;
+
+    return slots.map(time => {
+      const local = toLocalDateTime(time, venue.timezone);
+      const slotEnd = new Date(time.getTime() + HOUR_MS);
+      const baselinePercent = baseline[WEEKDAYS[local.weekday]]?.[local.hour] ?? 0;
+      const stats = history.get(hourKey(local.weekday, local.hour));
+
+      let percentage = baselinePercent;
+      let confidence = baselineConfidence;
+      let basis: ForecastBasis = 'baseline';
+
+      if (stats) {
+        const mean = stats.weightedTotal / stats.weight;
+        const spread = Math.sqrt(Math.max(0, stats.weightedSquares / stats.weight - mean * mean));
+        // Hours that vary a lot week to week are less predictable
+        const historyConfidence = Math.max(CONFIDENCE.historyMin, CONFIDENCE.historyMax - spread / 100);
+        const share = stats.weight / (stats.weight + BASELINE_WEIGHT);
+
+        percentage = share * mean + (1 - share) * baselinePercent;
+        confidence = share * historyConfidence + (1 - share) * baselineConfidence;
+        basis = share >= 0.75 ? 'history' : 'blended';
+      }
+
+      const slotEvents = events.filter(event => event.startTime < slotEnd && event.endTime > time);
+      // Checked mid-hour so an hour that opens at half past counts as open
+      const isClosed = this.openingHoursService
+        .statusFor(venue, new Date(time.getTime() + HOUR_MS / 2), holidays)?.isOpen === false;
+
+      if (slotEvents.length > 0) {
+        // An event on a night the venue is normally shut means it's open
+        const eventPercent = Math.max(...slotEvents.map(event =>
+          event.capacity && venue.capacity > 0 ? (event.capacity / venue.capacity) * 100 : EVENT_PERCENT
+        ));
+        percentage = Math.max(isClosed ? 0 : percentage, eventPercent);
+        basis = 'event';
+      } else if (isClosed) {
+        percentage = 0;
+        confidence = CONFIDENCE.openingHours;
+        basis = 'opening_hours';
+      }
+
+      const occupancyPercentage = Math.round(percentage);
+      return {
+        time,
+        localTime: `${local.date}T${String(local.hour).padStart(2, '0')}:00`,
+        predictedOccupancy: Math.round((occupancyPercentage / 100) * venue.capacity),
+        occupancyPercentage,
+        status: basis === 'opening_hours' ? 'CLOSED' : deriveBusyStatus(occupancyPercentage),
+        confidence: Math.round(confidence * 100) / 100,
+        basis,
+        events: slotEvents.map(({ id, title }) => ({ id, title }))
+      };
+    });
+  }
+}
+
+// Start of the current venue-local hour and the hours after it. Hours repeated
+// by a DST change appear once.
+function hourSlots(at: Date, hours: number, timeZone: string): Date[] {
+  const local = toLocalDateTime(at, timeZone);
+  const slots: Date[] = [];
+  for (let offset = 0; slots.length < hours; offset++) {
+    const slot = fromLocalTime(local.date, (local.hour + offset) * 60, timeZone);
+    if (slots.length === 0 || slot.getTime() > slots[slots.length - 1].getTime()) {
+      slots.push(slot);
+    }
+  }
+  return slots;
+}
+
+function hourKey(weekday: number, hour: number): string {
+  return `${weekday}:${hour}`;
+}
+
+// Weighted occupancy for each venue-local weekday and hour, aggregated in
+// SQL. Snapshots are averaged per local date and hour first, so a busy door
+// counter doesn't outweigh the weeks it has no readings for. Each of those
+// averages is weighted by the age of its latest snapshot.
+async function historyByHour(venueId: string, timeZone: string, at: Date): Promise<Map<string, HourStats>> {
+  // Snapshot timestamps are stored as UTC without a time zone
+  const now = Prisma.sql`(${at.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+  const since = new Date(at.getTime() - HISTORY_WEEKS * WEEK_MS);
+
+  const rows = await prisma.$queryRaw<(HourStats & { weekday: number; hour: number })[]>(Prisma.sql`
+    WITH samples AS (
+      SELECT
+        date_trunc('hour', ("timestamp" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}) AS local_hour,
+        avg("occupancyPercentage") AS mean,
+        power(0.5, extract(epoch FROM ${now} - max("timestamp")) / ${(WEEK_MS / 1000) * HISTORY_HALF_LIFE_WEEKS}) AS weight
+      FROM busy_snapshots
+      WHERE "venueId" = ${venueId}
+        AND source IN (${Prisma.join(OBSERVED_SOURCES)})
+        AND "timestamp" >= (${since.toISOString()}::timestamptz AT TIME ZONE 'UTC')
+        AND "timestamp" < ${now}
+      GROUP BY 1
+    )
+    SELECT
+      extract(dow FROM local_hour)::int AS weekday,
+      extract(hour FROM local_hour)::int AS hour,
+      sum(weight * mean)::float8 AS "weightedTotal",
+      sum(weight * mean * mean)::float8 AS "weightedSquares",
+      sum(weight)::float8 AS weight
+    FROM samples
+    GROUP BY 1, 2
+  `);
+
+  return new Map(rows.map(({ weekday, hour, weightedTotal, weightedSquares, weight }) => [
+    hourKey(weekday, hour),
+    { weightedTotal, weightedSquares, weight }
+  ]));
+}
@@ -0,0 +1,50 @@
+import { PrismaClient } from '@prisma/client';
+import { BusyEventBus, BusyStatusUpdate, busyEventBus } from './busyEvents';
+import { currentBusyStatus, recentSnapshotsInclude } from './busyStatus';
+
+const prisma = new PrismaClient();
+
+// Publishes a venue's busy status to live streams after new snapshots. Only
+// changes in status or occupancy are published, so a door counter repeating
+// the same count doesn't wake every client.
+export class BusyStatusNotifier {
+  constructor(private bus: BusyEventBus = busyEventBus) {}
+
+  // Never throws; snapshots are already saved and streams can catch up on
+  // the next change
+  async venuesChanged(venueIds: string[]): Promise<void> {
+    try {
+      const venues = await prisma.venue.findMany({
+        where: { id: { in: Array.from(new Set(venueIds)) }, archivedAt: null },
+        select: {
+          id: true,
+          latitude: true,
+          longitude: true,
+          ...recentSnapshotsInclude()
+        }
+      });
+
+      for (const venue of venues) {
+        const { busySources, ...status } = currentBusyStatus(venue.busySnapshots);
+        const update: BusyStatusUpdate = {
+          venueId: venue.id,
+          latitude: venue.latitude,
+          longitude: venue.longitude,
+          ...status
+        };
+
+        const previous = await this.bus.latest(venue.id);
+        if (
+          !previous ||
+          previous.currentStatus !== update.currentStatus ||
+          previous.currentOccupancy !== update.currentOccupancy ||
+          previous.occupancyPercentage !== update.occupancyPercentage
+        ) {
+          await this.bus.publish(update);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to publish busy status:', error);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { BusySnapshot, BusyStatus } from '@prisma/client';
+
+// Occupancy percentages at which a venue becomes MODERATE, BUSY and VERY_BUSY
+const BUSY_THRESHOLDS = {
+  moderate: parseInt(process.env.BUSY_MODERATE_PERCENT || '30'),
+  busy: parseInt(process.env.BUSY_BUSY_PERCENT || '60'),
+  veryBusy: parseInt(process.env.BUSY_VERY_BUSY_PERCENT || '80')
+};
+
+// Sources that measured the venue. Popular times and category estimates are
+// typical values and crowd reports are guesses, so history and analytics
+// leave them out.
+export const OBSERVED_SOURCES = ['realtime'];
+
+// Busiest last, so statuses can be compared by index
+export const BUSY_STATUS_ORDER: BusyStatus[] = ['CLOSED', 'QUIET', 'MODERATE', 'BUSY', 'VERY_BUSY'];
+
+// Percentage of capacity, which can go over 100 when a venue is over capacity
+export const occupancyPercentage = (occupancy: number, capacity: number): number =>
+  capacity > 0 ? Math.round((occupancy / capacity) * 100) : 0;
+
+export const deriveBusyStatus = (percentage: number): BusyStatus => {
+  if (percentage >= BUSY_THRESHOLDS.veryBusy) return 'VERY_BUSY';
+  if (percentage >= BUSY_THRESHOLDS.busy) return 'BUSY';
+  if (percentage >= BUSY_THRESHOLDS.moderate) return 'MODERATE';
+  return 'QUIET';
+};
+
+// A typical percentage for a reported status, for sources that only give a status
+export const statusPercentage = (status: BusyStatus): number => {
+  switch (status) {
+    case 'CLOSED': return 0;
+    case 'QUIET': return Math.round(BUSY_THRESHOLDS.moderate / 2);
+    case 'MODERATE': return Math.round((BUSY_THRESHOLDS.moderate + BUSY_THRESHOLDS.busy) / 2);
+    case 'BUSY': return Math.round((BUSY_THRESHOLDS.busy + BUSY_THRESHOLDS.veryBusy) / 2);
+    case 'VERY_BUSY': return Math.round((BUSY_THRESHOLDS.veryBusy + 100) / 2);
+  }
+};
+
+// How far each snapshot source is trusted when fresh, how quickly that fades
+// (the weight halves every halfLifeMinutes) and when it stops counting
+const SOURCE_WEIGHTS: Record<string, { reliability: number; halfLifeMinutes: number; maxAgeMinutes: number }> = {
+  realtime: { reliability: 1, halfLifeMinutes: 60, maxAgeMinutes: 6 * 60 },
+  crowd: { reliability: 0.3, halfLifeMinutes: 30, maxAgeMinutes: 2 * 60 },
+  google: { reliability: 0.5, halfLifeMinutes: 90, maxAgeMinutes: 3 * 60 },
+  serp: { reliability: 0.4, halfLifeMinutes: 90, maxAgeMinutes: 3 * 60 },
+  estimated: { reliability: 0.2, halfLifeMinutes: 90, maxAgeMinutes: 3 * 60 }
+};
+
+const MAX_SOURCE_AGE_MS = Math.max(...Object.values(SOURCE_WEIGHTS).map(weights => weights.maxAgeMinutes)) * 60 * 1000;
+// Crowd reports each count, so agreeing reports outweigh a lone one, but
+// together they still count for less than a fresh door count
+const MAX_CROWD_REPORTS = 3;
+// Door counters can report every few seconds; older rows than this are left out
+const SNAPSHOTS_PER_VENUE = 50;
+
+// Prisma query for the snapshots that can count towards a venue's current status
+export const recentSnapshotsQuery = (venueId?: string) => ({
+  where: {
+    venueId,
+    timestamp: {
+      gte: new Date(Date.now() - MAX_SOURCE_AGE_MS)
+    }
+  },
+  orderBy: { timestamp: 'desc' as const },
+  take: SNAPSHOTS_PER_VENUE
+});
+
+// The same, as an include on venues
+export const recentSnapshotsInclude = () => ({
+  busySnapshots: recentSnapshotsQuery()
+});
+
+export interface BusySourceContribution {
+  source: string;
+  status: BusyStatus;
+  occupancyPercentage: number;
+  timestamp: Date;
+  weight: number;
+}
+
+export interface CurrentBusyStatus {
+  // Null when no source has recent data
+  currentStatus: BusyStatus | null;
+  currentOccupancy: number;
+  occupancyPercentage: number;
+  busyConfidence: number;
+  busySources: BusySourceContribution[];
+  busyAsOf: Date | null;
+}
+
+type FusableSnapshot = Pick<BusySnapshot, 'source' | 'status' | 'occupancyCount' | 'occupancyPercentage' | 'timestamp'>;
+
+// Combines a venue's recent snapshots into its current busy status. Each
+// source's latest snapshot (or latest few crowd reports) counts, weighted by
+// how reliable the source is and how fresh the snapshot is. The venue is CLOSED when most of the weight says
+// so. Confidence grows with the total weight and drops when sources disagree.
+export const currentBusyStatus = (snapshots: FusableSnapshot[], at: Date = new Date()): CurrentBusyStatus => {
+  const counts = new Map<string, number>();
+  const contributions: (BusySourceContribution & { occupancyCount: number })[] = [];
+
+  for (const snapshot of [...snapshots].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())) {
+    const weights = SOURCE_WEIGHTS[snapshot.source];
+    const ageMinutes = Math.max(0, at.getTime() - snapshot.timestamp.getTime()) / 60000;
+    const count = counts.get(snapshot.source) || 0;
+    if (!weights || ageMinutes > weights.maxAgeMinutes || count >= (snapshot.source === 'crowd' ? MAX_CROWD_REPORTS : 1)) {
+      continue;
+    }
+    counts.set(snapshot.source, count + 1);
+    contributions.push({
+      source: snapshot.source,
+      status: snapshot.status,
+      occupancyCount: snapshot.occupancyCount,
+      occupancyPercentage: snapshot.occupancyPercentage,
+      timestamp: snapshot.timestamp,
+      weight: weights.reliability * Math.pow(0.5, ageMinutes / weights.halfLifeMinutes)
+    });
+  }
+
+  if (contributions.length === 0) {
+    return {
+      currentStatus: null,
+      currentOccupancy: 0,
+      occupancyPercentage: 0,
+      busyConfidence: 0,
+      busySources: [],
+      busyAsOf: null
+    };
+  }
+
+  const totalWeight = sum(contributions.map(contribution => contribution.weight));
+  const closedWeight = sum(contributions.filter(c => c.status === 'CLOSED').map(c => c.weight));
+  const isClosed = closedWeight >= totalWeight / 2;
+  const agreeing = contributions.filter(c => (c.status === 'CLOSED') === isClosed);
+  const agreeingWeight = isClosed ? closedWeight : totalWeight - closedWeight;
+
+  const weightedMean = (value: (c: typeof agreeing[number]) => number) =>
+    sum(agreeing.map(c => c.weight * value(c))) / agreeingWeight;
+  const percentage = isClosed ? 0 : weightedMean(c => c.occupancyPercentage);
+  // Spread of all sources around the result, in percentage points
+  const spread = Math.sqrt(sum(contributions.map(c =>
+    c.weight * Math.pow((c.status === 'CLOSED' ? 0 : c.occupancyPercentage) - percentage, 2)
+  )) / totalWeight);
+  const confidence = (1 - Math.exp(-2 * totalWeight)) * Math.max(0.5, 1 - spread / 100);
+
+  return {
+    currentStatus: isClosed ? 'CLOSED' : deriveBusyStatus(Math.round(percentage)),
+    currentOccupancy: isClosed ? 0 : Math.round(weightedMean(c => c.occupancyCount)),
+    occupancyPercentage: Math.round(percentage),
+    busyConfidence: Math.round(confidence * 100) / 100,
+    busySources: contributions.map(({ occupancyCount, ...contribution }) => ({
+      ...contribution,
+      weight: Math.round(contribution.weight * 100) / 100
+    })),
+    busyAsOf: contributions[0].timestamp
+  };
+};
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
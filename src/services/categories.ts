@@ -0,0 +1,157 @@
+import { Category, PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+  slug: string;
+  googleTypes: string[];
+  sortOrder: number;
+  // Live venues in this category or anything below it
+  venueCount: number;
+  children: CategoryNode[];
+}
+
+export const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// The category table is small, so tree operations load it whole
+export class CategoryService {
+  async getTree(): Promise<CategoryNode[]> {
+    const [categories, memberships] = await Promise.all([
+      this.loadAll(),
+      prisma.venueCategory.findMany({
+        where: { venue: { archivedAt: null } },
+        select: { venueId: true, categoryId: true }
+      })
+    ]);
+    const nodes = new Map<string, CategoryNode>(categories.map(category => [category.id, {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      googleTypes: category.googleTypes,
+      sortOrder: category.sortOrder,
+      venueCount: 0,
+      children: []
+    }]));
+
+    const roots: CategoryNode[] = [];
+    for (const category of categories) {
+      const node = nodes.get(category.id)!;
+      const parent = category.parentId ? nodes.get(category.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    // A venue in several categories under one node counts once there
+    const venueIds = new Map<string, Set<string>>();
+    for (const { venueId, categoryId } of memberships) {
+      if (!venueIds.has(categoryId)) {
+        venueIds.set(categoryId, new Set());
+      }
+      venueIds.get(categoryId)!.add(venueId);
+    }
+    const countVenues = (node: CategoryNode): Set<string> => {
+      const ids = new Set(venueIds.get(node.id));
+      node.children.forEach(child => countVenues(child).forEach(id => ids.add(id)));
+      node.venueCount = ids.size;
+      return ids;
+    };
+    roots.forEach(countVenues);
+
+    return roots;
+  }
+
+  // Ancestors of a category, root first
+  async getPath(categoryId: string): Promise<Category[]> {
+    const byId = new Map((await this.loadAll()).map(category => [category.id, category]));
+    const path: Category[] = [];
+    let current = byId.get(categoryId);
+    while (current) {
+      path.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  // IDs of the category and everything below it, or null for an unknown slug
+  async subtreeIds(slug: string): Promise<string[] | null> {
+    const categories = await this.loadAll();
+    const root = categories.find(category => category.slug === slug);
+    if (!root) {
+      return null;
+    }
+
+    const ids = [root.id];
+    for (let i = 0; i < ids.length; i++) {
+      categories
+        .filter(category => category.parentId === ids[i])
+        .forEach(category => ids.push(category.id));
+    }
+    return ids;
+  }
+
+  async resolveSlugs(slugs: string[]): Promise<Category[]> {
+    const categories = await prisma.category.findMany({
+      where: { slug: { in: slugs } }
+    });
+
+    const missing = slugs.filter(slug => !categories.some(category => category.slug === slug));
+    if (missing.length > 0) {
+      throw createError(`Unknown categories: ${missing.join(', ')}`, 400);
+    }
+    return categories;
+  }
+
+  // Throws if moving categoryId under parentId would make it its own ancestor
+  async assertValidParent(categoryId: string | null, parentId: string | null) {
+    if (!parentId) {
+      return;
+    }
+
+    const path = await this.getPath(parentId);
+    if (path.length === 0) {
+      throw createError('Parent category not found', 400);
+    }
+    if (categoryId && path.some(category => category.id === categoryId)) {
+      throw createError('A category cannot be moved under itself', 400);
+    }
+  }
+
+  // Most specific categories whose googleTypes include any of the place's types.
+  // Types are tried in Google's order, which lists the most specific first.
+  async matchGoogleTypes(types: string[]): Promise<Category[]> {
+    const categories = await this.loadAll();
+    const depth = (category: Category): number => {
+      let level = 0;
+      let current: Category | undefined = category;
+      while (current?.parentId) {
+        level++;
+        current = categories.find(candidate => candidate.id === current!.parentId);
+      }
+      return level;
+    };
+
+    for (const type of types.map(t => t.toLowerCase())) {
+      const matches = categories.filter(category => category.googleTypes.includes(type));
+      if (matches.length > 0) {
+        const deepest = Math.max(...matches.map(depth));
+        return matches.filter(category => depth(category) === deepest);
+      }
+    }
+    return [];
+  }
+
+  private loadAll(): Promise<Category[]> {
+    return prisma.category.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { EARTH_RADIUS_METERS, GeoPoint, boundingBoxForRadius } from '../utils/geo';
+
+const prisma = new PrismaClient();
+
+export interface VenueDistance {
+  id: string;
+  distanceMeters: number;
+}
+
+// Exact radius queries over venue coordinates. Uses PostGIS when USE_POSTGIS
+// is set (see README for the geography index); otherwise a bounding box
+// pre-filter on the latitude/longitude index followed by a haversine check.
+export class GeoSearchService {
+  private usePostGis: boolean;
+
+  constructor() {
+    this.usePostGis = process.env.USE_POSTGIS === 'true';
+  }
+
+  // Venues within radiusMeters of center, nearest first
+  async findWithinRadius(center: GeoPoint, radiusMeters: number): Promise<VenueDistance[]> {
+    const rows = this.usePostGis
+      ? await this.queryPostGis(center, radiusMeters)
+      : await this.queryHaversine(center, radiusMeters);
+
+    return rows.map(row => ({ id: row.id, distanceMeters: Math.round(Number(row.distance)) }));
+  }
+
+  private queryHaversine(center: GeoPoint, radiusMeters: number) {
+    const box = boundingBoxForRadius(center, radiusMeters);
+
+    return prisma.$queryRaw<{ id: string; distance: number }[]>(Prisma.sql`
+      SELECT id, distance FROM (
+        SELECT id,
+          2 * ${EARTH_RADIUS_METERS} * asin(least(1, sqrt(
+            power(sin(radians(latitude - ${center.latitude}) / 2), 2) +
+            cos(radians(${center.latitude})) * cos(radians(latitude)) *
+            power(sin(radians(longitude - ${center.longitude}) / 2), 2)
+          ))) AS distance
+        FROM venues
+        WHERE latitude BETWEEN ${box.minLatitude} AND ${box.maxLatitude}
+          AND longitude BETWEEN ${box.minLongitude} AND ${box.maxLongitude}
+          AND "archivedAt" IS NULL
+      ) AS candidates
+      WHERE distance <= ${radiusMeters}
+      ORDER BY distance ASC
+    `);
+  }
+
+  private queryPostGis(center: GeoPoint, radiusMeters: number) {
+    const origin = Prisma.sql`ST_SetSRID(ST_MakePoint(${center.longitude}, ${center.latitude}), 4326)::geography`;
+    const position = Prisma.sql`ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography`;
+
+    return prisma.$queryRaw<{ id: string; distance: number }[]>(Prisma.sql`
+      SELECT id, ST_Distance(${position}, ${origin}) AS distance
+      FROM venues
+      WHERE ST_DWithin(${position}, ${origin}, ${radiusMeters})
+        AND "archivedAt" IS NULL
+      ORDER BY distance ASC
+    `);
+  }
+}
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { CategoryService } from './categories';
 
 export interface PlaceDetails {
   name: string;
@@ -20,6 +21,7 @@ export interface PlaceDetailsResponse {
 export class GooglePlacesService {
   private apiKey: string;
   private baseURL = 'https://maps.googleapis.com/maps/api/place';
+  private categoryService = new CategoryService();
 
   constructor() {
     this.apiKey = process.env.GOOGLE_PLACES_API_KEY || '';
@@ -128,7 +130,8 @@ export class GooglePlacesService {
           businessStatus: placeDetails.business_status,
           googleOpeningHours: placeDetails.opening_hours,
           googleTypes: placeDetails.types,
-          googleAddress: placeDetails.formatted_address
+          googleAddress: placeDetails.formatted_address,
+          suggestedCategories: await this.categorizeVenueType(placeDetails.types)
         };
       }
     }
@@ -136,30 +139,9 @@ export class GooglePlacesService {
     return venue;
   }
 
-  categorizeVenueType(types: string[]): string {
-    for (const type of types) {
-      switch (type.toLowerCase()) {
-        case 'bar':
-        case 'night_club':
-        case 'liquor_store':
-          return 'Bar';
-        case 'restaurant':
-        case 'food':
-        case 'meal_takeaway':
-          return 'Restaurant';
-        case 'cafe':
-        case 'coffee':
-          return 'Cafe';
-        case 'gym':
-        case 'fitness':
-          return 'Gym';
-        case 'shopping_mall':
-        case 'store':
-          return 'Retail';
-        default:
-          continue;
-      }
-    }
-    return 'Other';
+  // Slugs of the most specific categories in our taxonomy matching the place's types
+  async categorizeVenueType(types: string[]): Promise<string[]> {
+    const categories = await this.categoryService.matchGoogleTypes(types);
+    return categories.map(category => category.slug);
   }
-}
\ No newline at end of file
+}
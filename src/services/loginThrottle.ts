@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface ThrottleCheck {
+  allowed: boolean;
+  retryAfterSeconds?: number;
+}
+
+export interface FailureResult {
+  failedCount: number;
+  lockedUntil?: Date;
+}
+
+// Tracks failed sign-ins per email (independently of IP) with progressive
+// delays between attempts and temporary lockouts.
+export class LoginThrottleService {
+  private freeAttempts: number;
+  private lockoutThreshold: number;
+  private lockoutMinutes: number;
+  private failureWindowMinutes: number;
+
+  constructor() {
+    this.freeAttempts = parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3');
+    this.lockoutThreshold = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10');
+    this.lockoutMinutes = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+    this.failureWindowMinutes = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '60');
+  }
+
+  async check(email: string): Promise<ThrottleCheck> {
+    const throttle = await prisma.loginThrottle.findUnique({
+      where: { email: normalizeEmail(email) }
+    });
+
+    if (!throttle) {
+      return { allowed: true };
+    }
+
+    const now = Date.now();
+
+    if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((throttle.lockedUntil.getTime() - now) / 1000)
+      };
+    }
+
+    // Progressive delay: after the free attempts, each failure doubles the wait
+    if (throttle.lastFailedAt && throttle.failedCount >= this.freeAttempts) {
+      const delayMs = this.delaySeconds(throttle.failedCount) * 1000;
+      const waitedMs = now - throttle.lastFailedAt.getTime();
+
+      if (waitedMs < delayMs) {
+        return {
+          allowed: false,
+          retryAfterSeconds: Math.ceil((delayMs - waitedMs) / 1000)
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  async recordFailure(email: string): Promise<FailureResult> {
+    const key = normalizeEmail(email);
+    const now = new Date();
+
+    const existing = await prisma.loginThrottle.findUnique({
+      where: { email: key }
+    });
+
+    // Failures outside the window no longer count towards a lockout
+    const windowStart = now.getTime() - this.failureWindowMinutes * 60 * 1000;
+    const previousCount = existing?.lastFailedAt && existing.lastFailedAt.getTime() >= windowStart
+      ? existing.failedCount
+      : 0;
+    const failedCount = previousCount + 1;
+
+    if (failedCount >= this.lockoutThreshold) {
+      const lockCount = (existing?.lockCount || 0) + 1;
+      // Each consecutive lockout doubles in length, capped at a day
+      const lockoutMinutes = Math.min(this.lockoutMinutes * 2 ** (lockCount - 1), 24 * 60);
+      const lockedUntil = new Date(now.getTime() + lockoutMinutes * 60 * 1000);
+
+      await prisma.loginThrottle.upsert({
+        where: { email: key },
+        update: { failedCount: 0, lockCount, lastFailedAt: now, lockedUntil },
+        create: { email: key, failedCount: 0, lockCount, lastFailedAt: now, lockedUntil }
+      });
+
+      return { failedCount, lockedUntil };
+    }
+
+    await prisma.loginThrottle.upsert({
+      where: { email: key },
+      update: { failedCount, lastFailedAt: now },
+      create: { email: key, failedCount, lastFailedAt: now }
+    });
+
+    return { failedCount };
+  }
+
+  async recordSuccess(email: string): Promise<void> {
+    await prisma.loginThrottle.deleteMany({
+      where: { email: normalizeEmail(email) }
+    });
+  }
+
+  // Clear all failure tracking for an email. Returns false if nothing was tracked.
+  async unlock(email: string): Promise<boolean> {
+    const { count } = await prisma.loginThrottle.deleteMany({
+      where: { email: normalizeEmail(email) }
+    });
+    return count > 0;
+  }
+
+  async listLocked() {
+    return prisma.loginThrottle.findMany({
+      where: { lockedUntil: { gt: new Date() } },
+      orderBy: { lockedUntil: 'desc' }
+    });
+  }
+
+  private delaySeconds(failedCount: number): number {
+    return Math.min(2 ** (failedCount - this.freeAttempts), 60);
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
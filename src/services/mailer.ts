@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Stores messages in the mail_outbox table instead of delivering them
+export class OutboxMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    await prisma.mailOutbox.create({
+      data: message
+    });
+  }
+}
+
+// Appends messages as JSON lines to a local file
+export class FileMailTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      JSON.stringify({ ...message, createdAt: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+// Delivers messages through an HTTP mail provider API
+export class HttpMailTransport implements MailTransport {
+  constructor(private apiUrl: string, private apiKey: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await axios.post(
+      this.apiUrl,
+      { from: this.from, ...message },
+      { headers: { Authorization: `Bearer ${this.apiKey}` } }
+    );
+  }
+}
+
+export const createMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT || 'outbox';
+
+  switch (transport) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_OUTBOX_FILE || 'tmp/outbox.jsonl');
+    case 'http':
+      if (!process.env.MAIL_API_URL || !process.env.MAIL_API_KEY) {
+        console.warn('Mail API not configured, falling back to outbox transport');
+        return new OutboxMailTransport();
+      }
+      return new HttpMailTransport(
+        process.env.MAIL_API_URL,
+        process.env.MAIL_API_KEY,
+        process.env.MAIL_FROM || 'Vibe <no-reply@vibe.app>'
+      );
+    case 'outbox':
+      return new OutboxMailTransport();
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${transport}", falling back to outbox transport`);
+      return new OutboxMailTransport();
+  }
+};
+
+export class MailerService {
+  private appUrl: string;
+
+  constructor(private transport: MailTransport = createMailTransport()) {
+    this.appUrl = process.env.APP_URL || 'http://localhost:3000';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send(message);
+  }
+
+  async sendEmailVerification(to: string, firstName: string, token: string): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your Vibe email address',
+      text: `Hi ${firstName},\n\nConfirm your email address by opening this link:\n${link}\n\nIf you didn't create a Vibe account you can ignore this email.`
+    });
+  }
+
+  async sendVenueInvite(to: string, venueName: string, inviterName: string, role: string, token: string): Promise<void> {
+    const link = `${this.appUrl}/venue-invites/accept?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: `You've been invited to join ${venueName} on Vibe`,
+      text: `Hi,\n\n${inviterName} has invited you to join the ${venueName} team on Vibe as ${role.toLowerCase()}.\n\nSign in with this email address and accept the invitation here:\n${link}\n\nThe invitation expires in a few days.`
+    });
+  }
+
+  async sendVenueClaimDecision(to: string, firstName: string, venueName: string, approved: boolean, note?: string): Promise<void> {
+    const outcome = approved
+      ? `Your claim for ${venueName} has been approved. You can now manage the venue from the app.`
+      : `Your claim for ${venueName} has been rejected.`;
+
+    await this.send({
+      to,
+      subject: `Your claim for ${venueName}`,
+      text: `Hi ${firstName},\n\n${outcome}${note ? `\n\nReviewer note: ${note}` : ''}`
+    });
+  }
+
+  async sendPasswordReset(to: string, firstName: string, token: string): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your Vibe password',
+      text: `Hi ${firstName},\n\nReset your password by opening this link:\n${link}\n\nThe link can only be used once. If you didn't ask to reset your password you can ignore this email.`
+    });
+  }
+}
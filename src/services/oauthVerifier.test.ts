@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import jwt from 'jsonwebtoken';
+import { OAuthVerifierService } from './oauthVerifier';
+
+const ISSUER = 'https://appleid.apple.com';
+const CLIENT_ID = 'com.example.vibe';
+
+// A local key set standing in for Apple's JWKS endpoint
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwksDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwks-'));
+const jwksPath = path.join(jwksDir, 'keys.json');
+fs.writeFileSync(jwksPath, JSON.stringify({
+  keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256', use: 'sig' }]
+}));
+
+process.env.APPLE_JWKS_URI = pathToFileURL(jwksPath).href;
+process.env.APPLE_CLIENT_IDS = CLIENT_ID;
+
+const idToken = (claims: Record<string, unknown> = {}, options: jwt.SignOptions = {}) =>
+  jwt.sign(
+    { sub: 'apple-user-1', email: 'Casey@Example.com', email_verified: 'true', ...claims },
+    privateKey,
+    { algorithm: 'RS256', keyid: 'key-1', issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m', ...options }
+  );
+
+describe('OAuthVerifierService.verifyIdToken', () => {
+  let verifier: OAuthVerifierService;
+
+  beforeEach(() => {
+    verifier = new OAuthVerifierService();
+  });
+
+  afterAll(() => {
+    fs.rmSync(jwksDir, { recursive: true, force: true });
+  });
+
+  const rejection = (token: string, nonce?: string) =>
+    verifier.verifyIdToken('APPLE', token, nonce).then(
+      () => { throw new Error('Expected the token to be rejected'); },
+      error => error
+    );
+
+  it('accepts a token signed by a key in the JWKS', async () => {
+    const identity = await verifier.verifyIdToken('APPLE', idToken());
+
+    expect(identity).toEqual({
+      provider: 'APPLE',
+      subject: 'apple-user-1',
+      email: 'casey@example.com',
+      emailVerified: true,
+      firstName: undefined,
+      lastName: undefined
+    });
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const error = await rejection(idToken({}, { issuer: 'https://accounts.google.com' }));
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('rejects a token issued to another client', async () => {
+    const error = await rejection(idToken({}, { audience: 'com.example.other' }));
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('rejects an expired token', async () => {
+    // Issued ten minutes ago, so its five minute lifetime is over
+    const error = await rejection(idToken({ iat: Math.floor(Date.now() / 1000) - 600 }));
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('checks the nonce, raw or hashed', async () => {
+    const nonce = 'n-0S6_WzA2Mj';
+    const hashed = crypto.createHash('sha256').update(nonce).digest('hex');
+
+    await expect(verifier.verifyIdToken('APPLE', idToken({ nonce }), nonce)).resolves.toMatchObject({ subject: 'apple-user-1' });
+    await expect(verifier.verifyIdToken('APPLE', idToken({ nonce: hashed }), nonce)).resolves.toMatchObject({ subject: 'apple-user-1' });
+
+    const error = await rejection(idToken({ nonce: 'something else' }), nonce);
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('rejects an unknown key ID without refetching the key set again', async () => {
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+
+    const first = await rejection(idToken({}, { keyid: 'key-2' }));
+    const second = await rejection(idToken({}, { keyid: 'key-3' }));
+
+    expect(first.statusCode).toBe(401);
+    expect(second.statusCode).toBe(401);
+    expect(readFile).toHaveBeenCalledTimes(1);
+    readFile.mockRestore();
+  });
+});
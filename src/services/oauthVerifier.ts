@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { OAuthProvider } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+
+export interface VerifiedIdentity {
+  provider: OAuthProvider;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+interface ProviderConfig {
+  issuers: string[];
+  jwksUri: string;
+  audiences: string[];
+}
+
+interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string })[];
+}
+
+interface CachedKeySet {
+  keys: JsonWebKeySet['keys'];
+  fetchedAt: number;
+}
+
+// Unknown key IDs refetch the key set at most this often, so tokens with made
+// up key IDs can't hammer the provider
+const MIN_REFETCH_MS = 60 * 1000;
+
+const PROVIDER_PARAMS: Record<string, OAuthProvider> = {
+  apple: 'APPLE',
+  google: 'GOOGLE'
+};
+
+// Verifies Sign in with Apple / Google ID tokens against the provider's JWKS.
+// JWKS URIs are configurable; a file: URI loads a local key set (used in tests).
+export class OAuthVerifierService {
+  private providers: Record<OAuthProvider, ProviderConfig>;
+  private keySetCache = new Map<string, CachedKeySet>();
+  private cacheTtlMs: number;
+
+  constructor() {
+    this.providers = {
+      APPLE: {
+        issuers: ['https://appleid.apple.com'],
+        jwksUri: process.env.APPLE_JWKS_URI || 'https://appleid.apple.com/auth/keys',
+        audiences: splitList(process.env.APPLE_CLIENT_IDS)
+      },
+      GOOGLE: {
+        issuers: ['https://accounts.google.com', 'accounts.google.com'],
+        jwksUri: process.env.GOOGLE_JWKS_URI || 'https://www.googleapis.com/oauth2/v3/certs',
+        audiences: splitList(process.env.GOOGLE_CLIENT_IDS)
+      }
+    };
+    this.cacheTtlMs = parseInt(process.env.OAUTH_JWKS_CACHE_SECONDS || '3600') * 1000;
+  }
+
+  parseProvider(param: string): OAuthProvider | null {
+    return PROVIDER_PARAMS[param.toLowerCase()] || null;
+  }
+
+  async verifyIdToken(provider: OAuthProvider, idToken: string, nonce?: string): Promise<VerifiedIdentity> {
+    const config = this.providers[provider];
+
+    if (config.audiences.length === 0) {
+      console.warn(`${provider} sign in not configured, rejecting`);
+      throw createError('Sign in provider not configured', 503);
+    }
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string' || !decoded.header.kid) {
+      throw createError('Invalid ID token', 401);
+    }
+
+    const jwk = await this.findKey(config.jwksUri, decoded.header.kid);
+    if (!jwk) {
+      throw createError('Invalid ID token', 401);
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+        algorithms: ['RS256', 'ES256'],
+        issuer: config.issuers as [string, ...string[]],
+        audience: config.audiences as [string, ...string[]]
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw createError('Invalid ID token', 401);
+    }
+
+    // Clients may send the raw nonce; providers embed either it or its SHA-256
+    if (nonce) {
+      const hashedNonce = crypto.createHash('sha256').update(nonce).digest('hex');
+      if (claims.nonce !== nonce && claims.nonce !== hashedNonce) {
+        throw createError('Invalid ID token', 401);
+      }
+    }
+
+    if (!claims.sub) {
+      throw createError('Invalid ID token', 401);
+    }
+
+    return {
+      provider,
+      subject: claims.sub,
+      email: claims.email?.toLowerCase(),
+      // Apple sends email_verified as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: claims.given_name,
+      lastName: claims.family_name
+    };
+  }
+
+  private async findKey(jwksUri: string, kid: string) {
+    const cached = this.keySetCache.get(jwksUri);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+    const key = cached?.keys.find(k => k.kid === kid);
+    if (key && age < this.cacheTtlMs) {
+      return key;
+    }
+
+    // Unknown key IDs trigger a refetch, since providers rotate their keys,
+    // unless the key set was only just fetched
+    if (!key && age < MIN_REFETCH_MS) {
+      return undefined;
+    }
+
+    const keys = await this.loadKeySet(jwksUri);
+    this.keySetCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    return keys.find(k => k.kid === kid);
+  }
+
+  private async loadKeySet(jwksUri: string): Promise<JsonWebKeySet['keys']> {
+    try {
+      if (jwksUri.startsWith('file:')) {
+        const raw = await fs.promises.readFile(new URL(jwksUri), 'utf8');
+        return (JSON.parse(raw) as JsonWebKeySet).keys;
+      }
+
+      const response = await axios.get<JsonWebKeySet>(jwksUri);
+      return response.data.keys;
+    } catch (error) {
+      console.error('Failed to load JWKS:', error);
+      throw createError('Unable to verify ID token', 503);
+    }
+  }
+}
+
+function splitList(value?: string): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { BusyStatus, Prisma, PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import { hashToken } from './tokenService';
+import { deriveBusyStatus, occupancyPercentage } from './busyStatus';
+import { BusyStatusNotifier } from './busyNotifier';
+
+const prisma = new PrismaClient();
+
+const DEVICE_KEY_PREFIX = 'vd_';
+// Device clocks drift; readings further ahead than this are rejected
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface OccupancyReading {
+  timestamp?: Date;
+  entries?: number;
+  exits?: number;
+  count?: number;
+}
+
+export interface OccupancyResult {
+  venueId: string;
+  // Readings left out because they were older than the venue's latest count
+  ignored: number;
+  currentOccupancy: number;
+  occupancyPercentage: number;
+  status: BusyStatus;
+}
+
+const DEVICE_SELECT = {
+  id: true,
+  venueId: true,
+  name: true,
+  keyPrefix: true,
+  lastSeenAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: {
+    select: { id: true, firstName: true, lastName: true }
+  }
+} as const;
+
+// Realtime occupancy from door counters and clicker apps. Each device has its
+// own key, scoped to one venue, and every reading becomes a BusySnapshot.
+export class OccupancyService {
+  private busyStatusNotifier = new BusyStatusNotifier();
+
+  // The key is only returned here; we keep its hash
+  async createDevice(venueId: string, name: string, createdById: string) {
+    const key = `${DEVICE_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const device = await prisma.occupancyDevice.create({
+      data: {
+        venueId,
+        name,
+        keyHash: hashToken(key),
+        keyPrefix: key.slice(0, DEVICE_KEY_PREFIX.length + 6),
+        createdById
+      },
+      select: DEVICE_SELECT
+    });
+
+    return { device, key };
+  }
+
+  listDevices(venueId: string) {
+    return prisma.occupancyDevice.findMany({
+      where: { venueId },
+      select: DEVICE_SELECT,
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async revokeDevice(venueId: string, deviceId: string) {
+    const { count } = await prisma.occupancyDevice.updateMany({
+      where: { id: deviceId, venueId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (count === 0) {
+      throw createError('Device not found', 404);
+    }
+  }
+
+  // The active device a key belongs to, if any
+  authenticate(key: string) {
+    return prisma.occupancyDevice.findFirst({
+      where: { keyHash: hashToken(key), revokedAt: null },
+      select: { id: true, venueId: true }
+    });
+  }
+
+  // Applies readings in time order. Entries and exits adjust the running count
+  // (never below zero); an absolute count replaces it. Counts older than the
+  // venue's latest realtime reading, e.g. queued by a device that was offline,
+  // are ignored so they can't overwrite what other doors have reported since.
+  async ingest(device: { id: string; venueId: string }, readings: OccupancyReading[]): Promise<OccupancyResult> {
+    const now = Date.now();
+    const timed = readings
+      .map(reading => ({ ...reading, timestamp: reading.timestamp || new Date(now) }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (timed[timed.length - 1].timestamp.getTime() > now + MAX_CLOCK_SKEW_MS) {
+      throw createError('Readings cannot be in the future', 400);
+    }
+
+    const result = await prisma.$transaction(async tx => {
+      // Lock the venue so devices on different doors don't lose each other's counts
+      const [venue] = await tx.$queryRaw<{ currentOccupancy: number; capacity: number; archivedAt: Date | null }[]>(Prisma.sql`
+        SELECT "currentOccupancy", capacity, "archivedAt" FROM venues WHERE id = ${device.venueId} FOR UPDATE
+      `);
+
+      if (!venue || venue.archivedAt) {
+        throw createError('Venue not found', 404);
+      }
+
+      const latestRealtime = await tx.busySnapshot.findFirst({
+        where: { venueId: device.venueId, source: 'realtime' },
+        orderBy: { timestamp: 'desc' },
+        select: { timestamp: true }
+      });
+      const applied = latestRealtime
+        ? timed.filter(reading => reading.count === undefined || reading.timestamp > latestRealtime.timestamp)
+        : timed;
+
+      await tx.occupancyDevice.update({
+        where: { id: device.id },
+        data: { lastSeenAt: new Date() }
+      });
+
+      if (applied.length === 0) {
+        const percentage = occupancyPercentage(venue.currentOccupancy, venue.capacity);
+        return {
+          venueId: device.venueId,
+          ignored: timed.length,
+          currentOccupancy: venue.currentOccupancy,
+          occupancyPercentage: percentage,
+          status: deriveBusyStatus(percentage)
+        };
+      }
+
+      let occupancy = venue.currentOccupancy;
+      const snapshots = applied.map(reading => {
+        occupancy = reading.count !== undefined
+          ? reading.count
+          : Math.max(0, occupancy + (reading.entries || 0) - (reading.exits || 0));
+        const percentage = occupancyPercentage(occupancy, venue.capacity);
+
+        return {
+          venueId: device.venueId,
+          deviceId: device.id,
+          timestamp: reading.timestamp,
+          occupancyCount: occupancy,
+          occupancyPercentage: percentage,
+          status: deriveBusyStatus(percentage),
+          source: 'realtime'
+        };
+      });
+
+      await tx.busySnapshot.createMany({ data: snapshots });
+      await tx.venue.update({
+        where: { id: device.venueId },
+        data: { currentOccupancy: occupancy }
+      });
+
+      const latest = snapshots[snapshots.length - 1];
+      return {
+        venueId: device.venueId,
+        ignored: timed.length - applied.length,
+        currentOccupancy: latest.occupancyCount,
+        occupancyPercentage: latest.occupancyPercentage,
+        status: latest.status
+      };
+    });
+
+    await this.busyStatusNotifier.venuesChanged([device.venueId]);
+    return result;
+  }
+}
@@ -0,0 +1,74 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  OpeningSchedule,
+  OpeningStatus,
+  getOpeningStatus,
+  parseOpeningHours
+} from '../utils/openingHours';
+
+const prisma = new PrismaClient();
+
+// Open venues closing within this many minutes count as closing soon
+export const CLOSING_SOON_MINUTES = parseInt(process.env.CLOSING_SOON_MINUTES || '60');
+const HOLIDAY_CACHE_MS = 60 * 60 * 1000;
+
+// Shared by every instance so admin edits are seen straight away
+let holidayCache: { dates: Set<string>; loadedAt: number } | null = null;
+
+interface VenueHours {
+  openingHours: Prisma.JsonValue;
+  openingSchedule: Prisma.JsonValue | null;
+  timezone: string;
+}
+
+export interface VenueOpeningStatus extends OpeningStatus {
+  closingSoon: boolean;
+}
+
+export class OpeningHoursService {
+  // Public holiday dates, cached since the calendar rarely changes
+  async holidayDates(): Promise<Set<string>> {
+    if (holidayCache && Date.now() - holidayCache.loadedAt < HOLIDAY_CACHE_MS) {
+      return holidayCache.dates;
+    }
+
+    const holidays = await prisma.publicHoliday.findMany({
+      select: { date: true }
+    });
+    const dates = new Set(holidays.map(holiday => holiday.date.toISOString().slice(0, 10)));
+    holidayCache = { dates, loadedAt: Date.now() };
+    return dates;
+  }
+
+  clearHolidayCache() {
+    holidayCache = null;
+  }
+
+  // Venues saved before schedules were stored are parsed from openingHours on the fly
+  scheduleFor(venue: VenueHours): OpeningSchedule | null {
+    if (venue.openingSchedule) {
+      return venue.openingSchedule as unknown as OpeningSchedule;
+    }
+    try {
+      return parseOpeningHours(venue.openingHours);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // null when the venue's hours can't be read
+  statusFor(venue: VenueHours, at: Date, holidays: Set<string>): VenueOpeningStatus | null {
+    const schedule = this.scheduleFor(venue);
+    if (!schedule) {
+      return null;
+    }
+
+    const status = getOpeningStatus(schedule, at, venue.timezone, holidays);
+    return {
+      ...status,
+      closingSoon: status.isOpen &&
+        status.closesAt !== null &&
+        status.closesAt.getTime() - at.getTime() <= CLOSING_SOON_MINUTES * 60 * 1000
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+
+process.env.SERP_API_KEY = 'test-key';
+
+const mockPrisma = {
+  venue: { findMany: jest.fn(), findUnique: jest.fn() },
+  venuePopularTimes: { findUnique: jest.fn(), upsert: jest.fn(), updateMany: jest.fn(), createMany: jest.fn() },
+  busySnapshot: { createMany: jest.fn() },
+  publicHoliday: { findMany: jest.fn() }
+};
+const mockAxiosGet = jest.fn();
+const mockVenuesChanged = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => mockPrisma)
+}));
+jest.mock('axios', () => ({ __esModule: true, default: { get: mockAxiosGet } }));
+jest.mock('./busyNotifier', () => ({
+  BusyStatusNotifier: jest.fn(() => ({ venuesChanged: mockVenuesChanged }))
+}));
+
+import { PopularTimesService } from './popularTimes';
+import { parsePopularTimes } from '../utils/popularTimes';
+
+const fixture = (name: string) =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, '../__fixtures__/serpapi', name), 'utf8'));
+
+const SERP_HOURS = parsePopularTimes(fixture('place_results.json').place_results.popular_times)!;
+
+const venue = {
+  id: 'venue-1',
+  name: 'The Courthouse Hotel',
+  location: 'Newtown NSW',
+  category: 'Bar',
+  placeId: 'ChIJ8VHxVJ6uEmsRQgIcM5Kk3zE'
+};
+
+describe('PopularTimesService', () => {
+  let service: PopularTimesService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockPrisma.venuePopularTimes.upsert.mockImplementation(async ({ create }: any) => create);
+    mockPrisma.publicHoliday.findMany.mockResolvedValue([]);
+    service = new PopularTimesService();
+  });
+
+  describe('syncing a venue', () => {
+    beforeEach(() => {
+      mockPrisma.venue.findUnique.mockResolvedValue(venue);
+    });
+
+    it('saves SerpAPI popular times', async () => {
+      mockAxiosGet.mockResolvedValue({ data: fixture('place_results.json') });
+      mockPrisma.venuePopularTimes.findUnique.mockResolvedValue(null);
+
+      const saved = await service.resyncVenue(venue.id);
+
+      expect(mockAxiosGet.mock.calls[0][1].params).toMatchObject({ engine: 'google_maps', place_id: venue.placeId });
+      expect(saved).toMatchObject({ venueId: venue.id, source: 'serp', hours: SERP_HOURS, lastError: null });
+      expect(saved.serpSyncedAt).toBeInstanceOf(Date);
+    });
+
+    it('keeps earlier SerpAPI data when SerpAPI has none now', async () => {
+      mockAxiosGet.mockResolvedValue({ data: fixture('search_without_popular_times.json') });
+      mockPrisma.venuePopularTimes.findUnique.mockResolvedValue({ venueId: venue.id, source: 'serp', hours: SERP_HOURS });
+
+      const saved = await service.resyncVenue(venue.id);
+
+      expect(saved).toMatchObject({ source: 'serp', hours: SERP_HOURS });
+      expect(saved.lastError).toMatch(/no popular times/);
+      expect(saved.serpSyncedAt).toBeUndefined();
+    });
+
+    it('falls back to category estimates', async () => {
+      mockAxiosGet.mockResolvedValue({ data: fixture('search_without_popular_times.json') });
+      mockPrisma.venuePopularTimes.findUnique.mockResolvedValue(null);
+
+      const saved = await service.resyncVenue(venue.id);
+
+      expect(saved.source).toBe('estimated');
+      expect(Math.max(...saved.hours.saturday)).toBeGreaterThan(0);
+      expect(saved.lastError).toMatch(/no popular times/);
+    });
+
+    it('falls back when the SerpAPI request fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockAxiosGet.mockRejectedValue(new Error('socket hang up'));
+      mockPrisma.venuePopularTimes.findUnique.mockResolvedValue(null);
+
+      const saved = await service.resyncVenue(venue.id);
+
+      expect(saved.source).toBe('estimated');
+    });
+  });
+
+  describe('syncDue', () => {
+    it('only syncs venues it manages to claim', async () => {
+      mockPrisma.venue.findMany.mockResolvedValue([
+        { ...venue, popularTimes: { venueId: venue.id } },
+        { ...venue, id: 'venue-2', placeId: null, popularTimes: null }
+      ]);
+      // Another instance got to venue-1 first
+      mockPrisma.venuePopularTimes.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.venuePopularTimes.createMany.mockResolvedValue({ count: 1 });
+      mockPrisma.venuePopularTimes.findUnique.mockResolvedValue(null);
+      mockAxiosGet.mockResolvedValue({ data: fixture('search_without_popular_times.json') });
+
+      const counts = await service.syncDue();
+
+      expect(counts).toEqual({ serp: 0, estimated: 1 });
+      expect(mockPrisma.venuePopularTimes.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ venueId: venue.id, syncedAt: { lt: expect.any(Date) } })
+      }));
+      expect(mockPrisma.venuePopularTimes.createMany).toHaveBeenCalledWith(expect.objectContaining({ skipDuplicates: true }));
+      expect(mockAxiosGet).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.venuePopularTimes.upsert.mock.calls[0][0].where).toEqual({ venueId: 'venue-2' });
+    });
+  });
+
+  describe('recordSnapshots', () => {
+    const saved: any[] = [];
+
+    beforeEach(() => {
+      saved.length = 0;
+      // Stands in for the (venueId, hourStart) unique index
+      mockPrisma.busySnapshot.createMany.mockImplementation(async ({ data, skipDuplicates }: any) => {
+        const fresh = data.filter((row: any) => !saved.some(existing =>
+          existing.venueId === row.venueId && existing.hourStart.getTime() === row.hourStart.getTime()
+        ));
+        if (!skipDuplicates && fresh.length < data.length) {
+          throw new Error('Unique constraint failed');
+        }
+        saved.push(...fresh);
+        return { count: fresh.length };
+      });
+      mockPrisma.venue.findMany.mockResolvedValue([
+        {
+          id: 'venue-1',
+          capacity: 200,
+          timezone: 'Australia/Sydney',
+          openingHours: null,
+          openingSchedule: null,
+          popularTimes: { source: 'serp', hours: SERP_HOURS }
+        },
+        {
+          id: 'venue-2',
+          capacity: 80,
+          timezone: 'Australia/Sydney',
+          openingHours: { saturday: 'Closed', sunday: 'Closed' },
+          openingSchedule: null,
+          popularTimes: { source: 'estimated', hours: SERP_HOURS }
+        }
+      ]);
+    });
+
+    // 11:30pm on a Saturday in Sydney
+    const at = new Date('2025-03-15T12:30:00Z');
+
+    it('writes the venue-local hour from popular times, or CLOSED', async () => {
+      const written = await service.recordSnapshots(at);
+
+      expect(written).toBe(2);
+      expect(saved[0]).toMatchObject({
+        venueId: 'venue-1',
+        hourStart: new Date('2025-03-15T12:00:00Z'),
+        occupancyPercentage: 100,
+        occupancyCount: 200,
+        status: 'VERY_BUSY',
+        source: 'serp'
+      });
+      expect(saved[1]).toMatchObject({ venueId: 'venue-2', occupancyPercentage: 0, status: 'CLOSED', source: 'estimated' });
+      expect(mockVenuesChanged).toHaveBeenCalledWith(['venue-1', 'venue-2']);
+    });
+
+    it('writes one snapshot per venue and hour however often it runs', async () => {
+      await service.recordSnapshots(at);
+      const written = await service.recordSnapshots(new Date('2025-03-15T12:55:00Z'));
+
+      expect(written).toBe(0);
+      expect(saved).toHaveLength(2);
+      expect(mockVenuesChanged).toHaveBeenCalledTimes(1);
+
+      await service.recordSnapshots(new Date('2025-03-15T13:05:00Z'));
+      expect(saved).toHaveLength(4);
+    });
+  });
+});
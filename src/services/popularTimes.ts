@@ -0,0 +1,208 @@
+import { BusyStatus, Prisma, PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import { WeeklyPopularity, parsePopularTimes } from '../utils/popularTimes';
+import { WEEKDAYS, fromLocalTime, toLocalDateTime } from '../utils/timezone';
+import { deriveBusyStatus } from './busyStatus';
+import { BusyStatusNotifier } from './busyNotifier';
+import { OpeningHoursService } from './openingHours';
+import { SerpAPIService } from './serpApi';
+
+const prisma = new PrismaClient();
+
+// How often each venue's popular times are refreshed
+const SYNC_AFTER_DAYS = parseInt(process.env.POPULAR_TIMES_SYNC_DAYS || '7');
+// Venues synced per job run
+const SYNC_BATCH_SIZE = parseInt(process.env.POPULAR_TIMES_SYNC_BATCH_SIZE || '25');
+// Venues with a realtime count this recent don't get popular-times snapshots
+const REALTIME_FRESH_MS = 2 * 60 * 60 * 1000;
+
+interface SyncableVenue {
+  id: string;
+  name: string;
+  location: string;
+  category: string;
+  placeId: string | null;
+}
+
+const SYNCABLE_VENUE_SELECT = {
+  id: true,
+  name: true,
+  location: true,
+  category: true,
+  placeId: true
+} as const;
+
+// Popular times give venues without a door counter a busy status. Profiles
+// are synced from SerpAPI on a slow cadence, falling back to category-based
+// estimates, and turned into an hourly BusySnapshot for the current hour.
+export class PopularTimesService {
+  private serpApiService = new SerpAPIService();
+  private openingHoursService = new OpeningHoursService();
+  private busyStatusNotifier = new BusyStatusNotifier();
+
+  // Syncs venues that have never been synced or are due, oldest first
+  async syncDue(): Promise<{ serp: number; estimated: number }> {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - SYNC_AFTER_DAYS * 24 * 60 * 60 * 1000);
+    const venues = await prisma.venue.findMany({
+      where: {
+        archivedAt: null,
+        OR: [
+          { popularTimes: { is: null } },
+          { popularTimes: { syncedAt: { lt: cutoff } } }
+        ]
+      },
+      select: { ...SYNCABLE_VENUE_SELECT, popularTimes: { select: { venueId: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: SYNC_BATCH_SIZE
+    });
+
+    const counts = { serp: 0, estimated: 0 };
+    for (const venue of venues) {
+      // Another instance running the job may have taken it since we looked
+      if (!await this.claim(venue, venue.popularTimes !== null, cutoff, now)) {
+        continue;
+      }
+      const { source } = await this.syncVenue(venue);
+      counts[source === 'serp' ? 'serp' : 'estimated']++;
+    }
+    return counts;
+  }
+
+  async resyncVenue(venueId: string) {
+    const venue = await prisma.venue.findUnique({
+      where: { id: venueId },
+      select: SYNCABLE_VENUE_SELECT
+    });
+
+    if (!venue) {
+      throw createError('Venue not found', 404);
+    }
+    return this.syncVenue(venue);
+  }
+
+  getStatus(venueId: string) {
+    return prisma.venuePopularTimes.findUnique({
+      where: { venueId }
+    });
+  }
+
+  // Writes a snapshot for the current venue-local hour for every venue with
+  // popular times and no recent realtime count. Each venue gets one per hour
+  // however often this runs. Returns how many were written.
+  async recordSnapshots(at: Date = new Date()): Promise<number> {
+    const venues = await prisma.venue.findMany({
+      where: {
+        archivedAt: null,
+        popularTimes: { isNot: null },
+        busySnapshots: {
+          none: { source: 'realtime', timestamp: { gte: new Date(at.getTime() - REALTIME_FRESH_MS) } }
+        }
+      },
+      select: {
+        id: true,
+        capacity: true,
+        timezone: true,
+        openingHours: true,
+        openingSchedule: true,
+        popularTimes: { select: { source: true, hours: true } }
+      }
+    });
+
+    const holidays = await this.openingHoursService.holidayDates();
+    const snapshots = venues.map(venue => {
+      const local = toLocalDateTime(at, venue.timezone);
+      const hours = venue.popularTimes!.hours as unknown as WeeklyPopularity;
+      // Unreadable hours don't stop us from using the popularity
+      const isClosed = this.openingHoursService.statusFor(venue, at, holidays)?.isOpen === false;
+      const percentage = isClosed ? 0 : hours[WEEKDAYS[local.weekday]]?.[local.hour] ?? 0;
+      const status: BusyStatus = isClosed ? 'CLOSED' : deriveBusyStatus(percentage);
+
+      return {
+        venueId: venue.id,
+        timestamp: at,
+        hourStart: fromLocalTime(local.date, local.hour * 60, venue.timezone),
+        // Scores are relative to the venue's busiest hour, so this is an approximation
+        occupancyCount: Math.round((percentage / 100) * venue.capacity),
+        occupancyPercentage: percentage,
+        status,
+        source: venue.popularTimes!.source
+      };
+    });
+
+    if (snapshots.length === 0) {
+      return 0;
+    }
+
+    const { count } = await prisma.busySnapshot.createMany({ data: snapshots, skipDuplicates: true });
+    if (count > 0) {
+      await this.busyStatusNotifier.venuesChanged(snapshots.map(snapshot => snapshot.venueId));
+    }
+    return count;
+  }
+
+  // Marks a due venue as being synced by moving its syncedAt on, so only one
+  // instance syncs it. A venue synced for the first time starts out with
+  // category estimates.
+  private async claim(venue: SyncableVenue, hasPopularTimes: boolean, cutoff: Date, now: Date): Promise<boolean> {
+    if (hasPopularTimes) {
+      const { count } = await prisma.venuePopularTimes.updateMany({
+        where: { venueId: venue.id, syncedAt: { lt: cutoff } },
+        data: { syncedAt: now }
+      });
+      return count > 0;
+    }
+
+    const { count } = await prisma.venuePopularTimes.createMany({
+      data: [{
+        venueId: venue.id,
+        source: 'estimated',
+        hours: this.estimate(venue.category) as unknown as Prisma.InputJsonValue,
+        syncedAt: now
+      }],
+      skipDuplicates: true
+    });
+    return count > 0;
+  }
+
+  // Fetches popular times from SerpAPI. Without SerpAPI data, previously synced
+  // SerpAPI data is kept, and otherwise the venue gets category estimates.
+  private async syncVenue(venue: SyncableVenue) {
+    const now = new Date();
+    // Request failures are logged by SerpAPIService and come back as no data
+    const result = await this.serpApiService.fetchPopularTimes(venue.name, venue.location, venue.placeId);
+    const hours = result ? parsePopularTimes(result.popularTimes) : null;
+
+    if (hours) {
+      return this.save(venue.id, { source: 'serp', hours, syncedAt: now, serpSyncedAt: now, lastError: null });
+    }
+
+    const lastError = 'SerpAPI returned no popular times for this venue';
+
+    const existing = await this.getStatus(venue.id);
+    if (existing?.source === 'serp') {
+      return this.save(venue.id, { source: 'serp', hours: existing.hours as unknown as WeeklyPopularity, syncedAt: now, lastError });
+    }
+
+    return this.save(venue.id, { source: 'estimated', hours: this.estimate(venue.category), syncedAt: now, lastError });
+  }
+
+  private estimate(category: string): WeeklyPopularity {
+    return parsePopularTimes(this.serpApiService.generateEstimatedPopularTimes(category))!;
+  }
+
+  private save(venueId: string, data: {
+    source: string;
+    hours: WeeklyPopularity;
+    syncedAt: Date;
+    serpSyncedAt?: Date;
+    lastError: string | null;
+  }) {
+    const values = { ...data, hours: data.hours as unknown as Prisma.InputJsonValue };
+    return prisma.venuePopularTimes.upsert({
+      where: { venueId },
+      update: values,
+      create: { venueId, ...values }
+    });
+  }
+}
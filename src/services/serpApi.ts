@@ -19,7 +19,9 @@ export class SerpAPIService {
     }
   }
 
-  async fetchPopularTimes(venueName: string, location: string): Promise<SerpPopularTimesData | null> {
+  // Looks the place up directly when its Google place ID is known, rather than
+  // trusting the first search result
+  async fetchPopularTimes(venueName: string, location: string, placeId?: string | null): Promise<SerpPopularTimesData | null> {
     if (!this.apiKey) {
       console.warn('SerpAPI key not configured, skipping');
       return null;
@@ -28,27 +30,21 @@ export class SerpAPIService {
     try {
       const searchQuery = `${venueName} ${location} popular times`;
 
-      const params = {
-        engine: 'google_maps',
-        q: searchQuery,
-        type: 'search',
-        api_key: this.apiKey
-      };
+      const params = placeId
+        ? { engine: 'google_maps', place_id: placeId, api_key: this.apiKey }
+        : { engine: 'google_maps', q: searchQuery, type: 'search', api_key: this.apiKey };
 
       const response = await axios.get(this.baseURL, { params });
 
-      if (response.data.local_results && response.data.local_results.length > 0) {
-        const result = response.data.local_results[0];
-
-        if (result.popular_times) {
-          return {
-            venueId: '', // Will be set by caller
-            venueName,
-            popularTimes: result.popular_times,
-            lastUpdated: new Date(),
-            source: 'SerpAPI'
-          };
-        }
+      const result = response.data.place_results || response.data.local_results?.[0];
+      if (result?.popular_times) {
+        return {
+          venueId: '', // Will be set by caller
+          venueName,
+          popularTimes: result.popular_times,
+          lastUpdated: new Date(),
+          source: 'SerpAPI'
+        };
       }
 
       return null;
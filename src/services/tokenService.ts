@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+
+const prisma = new PrismaClient();
+
+export interface TokenSubject {
+  id: string;
+  email: string;
+  tokenVersion: number;
+}
+
+export interface AccessTokenClaims {
+  userId: string;
+  email: string;
+  ver: number;
+  sid: string;
+  jti: string;
+  exp: number;
+}
+
+// Single-purpose tokens (email links etc.) carry a purpose claim so they
+// can never be accepted as access tokens
+export type TokenPurpose = 'email_verification' | 'two_factor_challenge';
+
+export interface PurposeTokenClaims {
+  userId: string;
+  email: string;
+  purpose: TokenPurpose;
+}
+
+export interface SessionContext {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Device details recorded against the session a token pair belongs to
+export const sessionContext = (req: Request, deviceName?: string): SessionContext => ({
+  deviceName,
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip || req.socket.remoteAddress
+});
+
+export interface IssuedTokens {
+  token: string;
+  expiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export class TokenService {
+  private accessTokenTtl: string;
+  private refreshTokenTtlDays: number;
+
+  constructor() {
+    this.accessTokenTtl = process.env.JWT_EXPIRES_IN || '15m';
+    this.refreshTokenTtlDays = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30');
+  }
+
+  // Start a new session and issue its first access and refresh tokens
+  async issueTokens(user: TokenSubject, context: SessionContext = {}): Promise<IssuedTokens> {
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        deviceName: context.deviceName,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: this.refreshTokenExpiry()
+      }
+    });
+
+    const { refreshTokenId, ...tokens } = await this.createTokenPair(user, session.id);
+    return tokens;
+  }
+
+  // Exchange a refresh token for a new token pair. Each refresh token can be
+  // used exactly once; presenting a rotated token again revokes the session.
+  async rotateRefreshToken(rawToken: string, context: SessionContext = {}): Promise<IssuedTokens> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(rawToken) },
+      include: {
+        user: {
+          select: { id: true, email: true, tokenVersion: true }
+        }
+      }
+    });
+
+    if (!stored) {
+      throw createError('Invalid refresh token', 401);
+    }
+
+    if (stored.revokedAt) {
+      await this.revokeSession(stored.sessionId);
+      throw createError('Refresh token has already been used', 401);
+    }
+
+    if (stored.expiresAt < new Date()) {
+      throw createError('Refresh token expired', 401);
+    }
+
+    // Claim the token atomically so two concurrent refreshes can't both win
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      await this.revokeSession(stored.sessionId);
+      throw createError('Refresh token has already been used', 401);
+    }
+
+    const { refreshTokenId, refreshTokenExpiresAt, ...tokens } =
+      await this.createTokenPair(stored.user, stored.sessionId);
+
+    await prisma.$transaction([
+      prisma.refreshToken.update({
+        where: { id: stored.id },
+        data: { replacedById: refreshTokenId }
+      }),
+      prisma.session.update({
+        where: { id: stored.sessionId },
+        data: {
+          lastUsedAt: new Date(),
+          expiresAt: refreshTokenExpiresAt,
+          ...(context.userAgent && { userAgent: context.userAgent }),
+          ...(context.ipAddress && { ipAddress: context.ipAddress })
+        }
+      })
+    ]);
+
+    return { ...tokens, refreshTokenExpiresAt };
+  }
+
+  // Revoke a session and every refresh token rotated within it
+  async revokeSession(sessionId: string): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: now }
+      }),
+      prisma.refreshToken.updateMany({
+        where: { sessionId, revokedAt: null },
+        data: { revokedAt: now }
+      })
+    ]);
+  }
+
+  async listActiveSessions(userId: string) {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        deviceName: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+  }
+
+  // Sessions revoked from another device must stop working immediately,
+  // so authMiddleware checks this on every request
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true }
+    });
+    return session !== null && session.revokedAt === null;
+  }
+
+  // Invalidate every access and refresh token the user holds.
+  // Returns the new token version for issuing replacement tokens.
+  async revokeAllSessions(userId: string): Promise<number> {
+    const now = new Date();
+
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { tokenVersion: { increment: 1 } }
+      }),
+      prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now }
+      }),
+      prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now }
+      })
+    ]);
+
+    return user.tokenVersion;
+  }
+
+  // Create a single-use password reset token, replacing any outstanding ones
+  async createPasswordResetToken(userId: string): Promise<string> {
+    const rawToken = crypto.randomBytes(32).toString('base64url');
+    const ttlMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60');
+
+    await prisma.$transaction([
+      prisma.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() }
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          tokenHash: hashToken(rawToken),
+          userId,
+          expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+        }
+      })
+    ]);
+
+    return rawToken;
+  }
+
+  // Mark a password reset token as used and return the user it belongs to
+  async consumePasswordResetToken(rawToken: string): Promise<string> {
+    const stored = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(rawToken) }
+    });
+
+    if (!stored || stored.usedAt || stored.expiresAt < new Date()) {
+      throw createError('Invalid or expired token', 400);
+    }
+
+    const claimed = await prisma.passwordResetToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      throw createError('Invalid or expired token', 400);
+    }
+
+    return stored.userId;
+  }
+
+  signPurposeToken(user: { id: string; email: string }, purpose: TokenPurpose, expiresIn: string): string {
+    return jwt.sign(
+      { userId: user.id, email: user.email, purpose },
+      process.env.JWT_SECRET!,
+      { expiresIn } as jwt.SignOptions
+    );
+  }
+
+  verifyPurposeToken(token: string, purpose: TokenPurpose): PurposeTokenClaims {
+    try {
+      const claims = jwt.verify(token, process.env.JWT_SECRET!) as PurposeTokenClaims;
+      if (claims.purpose !== purpose) {
+        throw createError('Invalid or expired token', 400);
+      }
+      return claims;
+    } catch (error) {
+      if (error instanceof jwt.JsonWebTokenError) {
+        throw createError('Invalid or expired token', 400);
+      }
+      throw error;
+    }
+  }
+
+  private async createTokenPair(
+    user: TokenSubject,
+    sessionId: string
+  ): Promise<IssuedTokens & { refreshTokenId: string }> {
+    const { token, expiresAt } = this.signAccessToken(user, sessionId);
+
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const refreshTokenExpiresAt = this.refreshTokenExpiry();
+
+    const record = await prisma.refreshToken.create({
+      data: {
+        tokenHash: hashToken(refreshToken),
+        userId: user.id,
+        sessionId,
+        expiresAt: refreshTokenExpiresAt
+      }
+    });
+
+    return { token, expiresAt, refreshToken, refreshTokenExpiresAt, refreshTokenId: record.id };
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private signAccessToken(user: TokenSubject, sessionId: string): { token: string; expiresAt: Date } {
+    const token = jwt.sign(
+      { userId: user.id, email: user.email, ver: user.tokenVersion, sid: sessionId },
+      process.env.JWT_SECRET!,
+      { expiresIn: this.accessTokenTtl, jwtid: uuidv4() } as jwt.SignOptions
+    );
+
+    const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+    return { token, expiresAt: new Date(exp! * 1000) };
+  }
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
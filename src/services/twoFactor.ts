@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const prisma = new PrismaClient();
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TotpEnrolment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export class TwoFactorService {
+  private issuer: string;
+
+  constructor() {
+    this.issuer = process.env.TOTP_ISSUER || 'Vibe';
+  }
+
+  // Start (or restart) enrolment. 2FA stays off until confirmEnrolment succeeds.
+  async beginEnrolment(userId: string): Promise<TotpEnrolment> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+
+    if (user.totpEnabledAt) {
+      throw createError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: secret, totpLastUsedStep: null }
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.issuer)
+    };
+  }
+
+  // Confirm enrolment with a code from the authenticator app.
+  // Returns the plaintext recovery codes, which are only shown once.
+  async confirmEnrolment(userId: string, code: string): Promise<string[]> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || !user.totpSecret) {
+      throw createError('Two-factor enrolment has not been started', 400);
+    }
+
+    if (user.totpEnabledAt) {
+      throw createError('Two-factor authentication is already enabled', 409);
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      throw createError('Invalid verification code', 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode)
+      }
+    });
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: []
+      }
+    });
+  }
+
+  // Check a TOTP code or a recovery code for a user with 2FA enabled.
+  // Accepted TOTP codes and recovery codes can't be used again.
+  async verify(userId: string, credentials: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || !user.totpEnabledAt || !user.totpSecret) {
+      return false;
+    }
+
+    if (credentials.code) {
+      const step = verifyTotp(user.totpSecret, credentials.code);
+      if (step === null || (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep)) {
+        return false;
+      }
+
+      // Only succeed if no concurrent request accepted this step first
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }]
+        },
+        data: { totpLastUsedStep: step }
+      });
+      return count > 0;
+    }
+
+    if (credentials.recoveryCode) {
+      // Removed in one statement, so two concurrent requests can't both use a code
+      const hash = hashRecoveryCode(credentials.recoveryCode);
+      const count = await prisma.$executeRaw(Prisma.sql`
+        UPDATE users SET "totpRecoveryCodes" = array_remove("totpRecoveryCodes", ${hash})
+        WHERE id = ${userId} AND ${hash} = ANY("totpRecoveryCodes")
+      `);
+      return count > 0;
+    }
+
+    return false;
+  }
+
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+    });
+
+    return recoveryCodes;
+  }
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,338 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError, createError } from '../middleware/errorHandler';
+import { CsvError, parseCsvRecords, toCsv } from '../utils/csv';
+import { OpeningHoursError, parseOpeningHours } from '../utils/openingHours';
+import { importVenueSchema, validateImportVenue } from '../utils/validation';
+import { RevisionAuthor, VenueRevisionService } from './venueRevisions';
+
+const prisma = new PrismaClient();
+
+export const VENUE_FILE_FORMATS = ['json', 'csv'] as const;
+export type VenueFileFormat = typeof VENUE_FILE_FORMATS[number];
+
+// Export field order, and the CSV columns
+const VENUE_COLUMNS = [
+  'id', 'externalId', 'placeId', 'name', 'category', 'categorySlugs', 'location', 'latitude', 'longitude',
+  'timezone', 'capacity', 'rating', 'priceRange', 'pricing', 'musicGenres', 'features', 'openingHours',
+  'bookingURL', 'phoneNumber', 'images'
+];
+// CSV cells holding JSON
+const JSON_COLUMNS = ['pricing', 'musicGenres', 'features', 'openingHours'];
+// CSV cells holding a list of strings separated by |
+const LIST_COLUMNS = ['categorySlugs', 'images'];
+
+const IMPORT_FIELDS = Object.keys(importVenueSchema.describe().keys);
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportRowResult {
+  row: number; // 1-based, not counting the CSV header
+  action: ImportAction;
+  venueId?: string;
+  name?: string;
+  changedFields?: string[];
+  errors?: string[];
+  warnings?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: Record<ImportAction, number>;
+  rows: ImportRowResult[];
+}
+
+interface ImportRow {
+  input: Record<string, unknown>;
+  errors: string[];
+}
+
+interface MatchableVenue {
+  id: string;
+  placeId: string | null;
+  externalId: string | null;
+  archivedAt: Date | null;
+}
+
+// Bulk venue import and export. Rows are validated against createVenueSchema
+// and upserted by id, placeId or externalId; every write is recorded as an
+// IMPORT revision.
+export class VenueImportService {
+  private venueRevisionService = new VenueRevisionService();
+
+  // Rows from an uploaded file. JSON is either an array of venues or the legacy
+  // backend.js data/venues.json ({ venues: [...] }), whose ids become externalIds.
+  readRows(format: VenueFileFormat, content: unknown): ImportRow[] {
+    if (format === 'csv') {
+      if (typeof content !== 'string') {
+        throw createError('Expected a text/csv body', 400);
+      }
+      return this.readCsv(content);
+    }
+
+    let data = content;
+    if (typeof content === 'string') {
+      try {
+        data = JSON.parse(content);
+      } catch (error) {
+        throw createError('File is not valid JSON', 400);
+      }
+    }
+
+    if (Array.isArray(data)) {
+      return data.map(input => ({ input: input as Record<string, unknown>, errors: [] }));
+    }
+    if (data && typeof data === 'object' && Array.isArray((data as { venues?: unknown }).venues)) {
+      return (data as { venues: unknown[] }).venues.map(venue => {
+        if (!venue || typeof venue !== 'object') {
+          return { input: {}, errors: ['Expected a venue object'] };
+        }
+        const { id, ...fields } = venue as Record<string, unknown>;
+        return { input: { ...(id !== undefined ? { externalId: String(id) } : {}), ...fields }, errors: [] };
+      });
+    }
+    throw createError('Expected an array of venues or { "venues": [...] }', 400);
+  }
+
+  async importRows(rows: ImportRow[], options: { dryRun: boolean; author: RevisionAuthor }): Promise<ImportReport> {
+    const validated = rows.map(row => this.validateRow(row));
+    const knownSlugs = new Set((await prisma.category.findMany({ select: { slug: true } })).map(category => category.slug));
+    const venues = await this.loadMatches(validated.map(row => row.value));
+
+    const results: ImportRowResult[] = [];
+    const claimed = new Map<string, number>();
+
+    for (const [index, row] of validated.entries()) {
+      const result: ImportRowResult = {
+        row: index + 1,
+        action: 'error',
+        name: typeof row.value.name === 'string' ? row.value.name : undefined,
+        ...(row.warnings.length > 0 ? { warnings: row.warnings } : {})
+      };
+      results.push(result);
+
+      const errors = [...row.errors];
+      const unknownSlugs = ((row.value.categorySlugs || []) as string[]).filter(slug => !knownSlugs.has(slug));
+      if (unknownSlugs.length > 0) {
+        errors.push(`Unknown categories: ${unknownSlugs.join(', ')}`);
+      }
+
+      const match = errors.length === 0 ? this.matchVenue(row.value, venues) : { errors: [] };
+      errors.push(...match.errors);
+
+      // Two rows for the same venue would overwrite each other
+      const keys = match.venue
+        ? [`id:${match.venue.id}`]
+        : [row.value.placeId && `placeId:${row.value.placeId}`, row.value.externalId && `externalId:${row.value.externalId}`]
+            .filter((key): key is string => Boolean(key));
+      const earlierRow = keys.map(key => claimed.get(key)).find(Boolean);
+      if (earlierRow) {
+        errors.push(`Same venue as row ${earlierRow}`);
+      }
+
+      if (errors.length > 0) {
+        result.errors = errors;
+        continue;
+      }
+      keys.forEach(key => claimed.set(key, result.row));
+
+      const { id, ...values } = row.value;
+      try {
+        if (!match.venue) {
+          result.action = 'create';
+          if (!options.dryRun) {
+            result.venueId = (await this.venueRevisionService.createVenue(values, options.author)).id;
+          }
+        } else {
+          result.venueId = match.venue.id;
+          const changes = options.dryRun
+            ? await this.venueRevisionService.previewChanges(match.venue.id, values)
+            : (await this.venueRevisionService.updateVenue(match.venue.id, values, options.author)).revision?.changes;
+          const changedFields = Object.keys(changes || {});
+          result.action = changedFields.length > 0 ? 'update' : 'unchanged';
+          if (changedFields.length > 0) {
+            result.changedFields = changedFields;
+          }
+        }
+      } catch (error) {
+        // Bad data fails the row; anything else (e.g. the database going away) stops the import
+        if (!(error as AppError).isOperational) {
+          throw error;
+        }
+        result.action = 'error';
+        result.errors = [(error as Error).message];
+      }
+    }
+
+    const summary: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+    results.forEach(result => summary[result.action]++);
+
+    return { dryRun: options.dryRun, summary, rows: results };
+  }
+
+  // Active venues in the import format, so an export can be edited and re-imported
+  async exportVenues(format: VenueFileFormat): Promise<string> {
+    const venues = await prisma.venue.findMany({
+      where: { archivedAt: null },
+      include: {
+        categories: { select: { isPrimary: true, category: { select: { slug: true } } } }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    const records = venues.map(({ categories, ...venue }) => {
+      const fields: Record<string, unknown> = {
+        ...venue,
+        categorySlugs: [...categories]
+          .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+          .map(link => link.category.slug)
+      };
+      // Nulls would fail validation on the way back in
+      return Object.fromEntries(
+        VENUE_COLUMNS
+          .filter(column => fields[column] !== null && fields[column] !== undefined)
+          .map(column => [column, fields[column]])
+      );
+    });
+
+    if (format === 'json') {
+      return JSON.stringify(records, null, 2);
+    }
+
+    return toCsv(VENUE_COLUMNS, records.map(record => Object.fromEntries(
+      Object.entries(record).map(([column, value]) => [
+        column,
+        JSON_COLUMNS.includes(column) ? JSON.stringify(value)
+          : LIST_COLUMNS.includes(column) ? (value as string[]).join('|')
+          : String(value)
+      ])
+    )));
+  }
+
+  private readCsv(content: string): ImportRow[] {
+    let records: Record<string, string>[];
+    try {
+      records = parseCsvRecords(content);
+    } catch (error) {
+      if (error instanceof CsvError) {
+        throw createError(`CSV: ${error.message}`, 400);
+      }
+      throw error;
+    }
+
+    // Empty cells are left out, so they fall back to defaults rather than clearing a field
+    return records.map(record => {
+      const input: Record<string, unknown> = {};
+      const errors: string[] = [];
+
+      for (const [column, cell] of Object.entries(record)) {
+        const text = cell.trim();
+        if (text === '') {
+          continue;
+        }
+
+        if (JSON_COLUMNS.includes(column)) {
+          try {
+            input[column] = JSON.parse(text);
+          } catch (error) {
+            errors.push(`${column} is not valid JSON`);
+          }
+        } else if (LIST_COLUMNS.includes(column)) {
+          input[column] = text.split('|').map(item => item.trim()).filter(Boolean);
+        } else {
+          input[column] = text;
+        }
+      }
+
+      return { input, errors };
+    });
+  }
+
+  private validateRow(row: ImportRow) {
+    let input = row.input && typeof row.input === 'object' ? row.input : {};
+    let { error, value } = validateImportVenue(input);
+    const warnings: string[] = [];
+
+    // Old exports hold placeholders like "none" for a missing booking link,
+    // which shouldn't cost the rest of the row
+    if (error?.details.some(detail => detail.path[0] === 'bookingURL')) {
+      const { bookingURL, ...rest } = input;
+      warnings.push(`Dropped bookingURL ${JSON.stringify(bookingURL)}: not a valid URL`);
+      input = rest;
+      ({ error, value } = validateImportVenue(input));
+    }
+
+    const errors = [...row.errors, ...(error ? error.details.map(detail => detail.message) : [])];
+    if (!error) {
+      try {
+        parseOpeningHours(value.openingHours);
+      } catch (parseError) {
+        if (!(parseError instanceof OpeningHoursError)) {
+          throw parseError;
+        }
+        errors.push(`openingHours: ${parseError.message}`);
+      }
+    }
+
+    const ignored = Object.keys(input).filter(field => !IMPORT_FIELDS.includes(field));
+    if (ignored.length > 0) {
+      warnings.push(`Ignored unknown fields: ${ignored.join(', ')}`);
+    }
+    return {
+      value: (value || {}) as Record<string, any>,
+      errors,
+      warnings
+    };
+  }
+
+  // Existing venues any row could match, looked up in one query
+  private async loadMatches(values: Record<string, any>[]) {
+    const ids = values.map(value => value.id).filter(Boolean);
+    const placeIds = values.map(value => value.placeId).filter(Boolean);
+    const externalIds = values.map(value => value.externalId).filter(Boolean);
+
+    const venues = await prisma.venue.findMany({
+      where: {
+        OR: [
+          { id: { in: ids } },
+          { placeId: { in: placeIds } },
+          { externalId: { in: externalIds } }
+        ]
+      },
+      select: { id: true, placeId: true, externalId: true, archivedAt: true }
+    });
+
+    return {
+      byId: new Map(venues.map(venue => [venue.id, venue])),
+      byPlaceId: new Map(venues.filter(venue => venue.placeId).map(venue => [venue.placeId!, venue])),
+      byExternalId: new Map(venues.filter(venue => venue.externalId).map(venue => [venue.externalId!, venue]))
+    };
+  }
+
+  private matchVenue(
+    value: Record<string, any>,
+    venues: Awaited<ReturnType<VenueImportService['loadMatches']>>
+  ): { venue?: MatchableVenue; errors: string[] } {
+    if (value.id) {
+      const venue = venues.byId.get(value.id);
+      if (!venue) {
+        return { errors: [`No venue with id ${value.id}`] };
+      }
+      return this.checkMatch(venue);
+    }
+
+    const byPlaceId = value.placeId ? venues.byPlaceId.get(value.placeId) : undefined;
+    const byExternalId = value.externalId ? venues.byExternalId.get(value.externalId) : undefined;
+    if (byPlaceId && byExternalId && byPlaceId.id !== byExternalId.id) {
+      return { errors: ['placeId and externalId match different venues'] };
+    }
+
+    const venue = byPlaceId || byExternalId;
+    return venue ? this.checkMatch(venue) : { errors: [] };
+  }
+
+  private checkMatch(venue: MatchableVenue) {
+    return venue.archivedAt
+      ? { errors: [`Venue ${venue.id} is archived; restore it before importing over it`] }
+      : { venue, errors: [] };
+  }
+}
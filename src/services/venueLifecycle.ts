@@ -0,0 +1,127 @@
+import { PrismaClient } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import { GooglePlacesService } from './googlePlaces';
+import { VenueRevisionService } from './venueRevisions';
+
+const prisma = new PrismaClient();
+
+export const CLOSED_PERMANENTLY = 'CLOSED_PERMANENTLY';
+
+// Archived venues are purged for good once they've been archived this long
+const PURGE_AFTER_DAYS = parseInt(process.env.VENUE_PURGE_AFTER_DAYS || '90');
+// Venues whose Google business status is checked per run, least recently checked first
+const STATUS_CHECK_BATCH_SIZE = parseInt(process.env.VENUE_STATUS_CHECK_BATCH_SIZE || '50');
+
+export class VenueLifecycleService {
+  private googlePlacesService = new GooglePlacesService();
+  private venueRevisionService = new VenueRevisionService();
+
+  async archive(venueId: string, reason: string, archivedById: string) {
+    const { count } = await prisma.venue.updateMany({
+      where: { id: venueId, archivedAt: null },
+      data: { archivedAt: new Date(), archivedReason: reason, archivedById }
+    });
+
+    if (count === 0) {
+      await this.assertExists(venueId);
+      throw createError('Venue is already archived', 409);
+    }
+  }
+
+  async restore(venueId: string) {
+    const { count } = await prisma.venue.updateMany({
+      where: { id: venueId, archivedAt: { not: null } },
+      data: { archivedAt: null, archivedReason: null, archivedById: null }
+    });
+
+    if (count === 0) {
+      await this.assertExists(venueId);
+      throw createError('Venue is not archived', 409);
+    }
+  }
+
+  // When a venue archived at archivedAt becomes eligible for purging
+  purgeDateFor(archivedAt: Date): Date {
+    return new Date(archivedAt.getTime() + PURGE_AFTER_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  purgeCutoff(): Date {
+    return new Date(Date.now() - PURGE_AFTER_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  // Hard-deletes venues archived before the retention window. Returns their IDs.
+  async purgeExpired(): Promise<string[]> {
+    const expired = await prisma.venue.findMany({
+      where: { archivedAt: { lt: this.purgeCutoff() } },
+      select: { id: true }
+    });
+
+    const ids = expired.map(venue => venue.id);
+    if (ids.length > 0) {
+      // Snapshots, posts, deals, events, memberships etc. cascade
+      await prisma.venue.deleteMany({
+        where: { id: { in: ids }, archivedAt: { lt: this.purgeCutoff() } }
+      });
+    }
+    return ids;
+  }
+
+  // Refreshes businessStatus from Google and flags permanently closed venues for review
+  async checkBusinessStatuses(): Promise<number> {
+    const venues = await prisma.venue.findMany({
+      where: { placeId: { not: null }, archivedAt: null },
+      orderBy: { businessStatusCheckedAt: { sort: 'asc', nulls: 'first' } },
+      take: STATUS_CHECK_BATCH_SIZE,
+      select: { id: true, placeId: true, businessStatus: true, flaggedAt: true, flagDismissedAt: true }
+    });
+
+    let flagged = 0;
+    for (const venue of venues) {
+      const details = await this.googlePlacesService.fetchPlaceDetails(venue.placeId!);
+      const businessStatus = details?.business_status ?? venue.businessStatus;
+      const closed = businessStatus === CLOSED_PERMANENTLY;
+      // Once an admin has dismissed a closure it stays dismissed until the venue reopens
+      const newlyClosed = closed && !venue.flaggedAt && !venue.flagDismissedAt;
+
+      if (businessStatus !== venue.businessStatus) {
+        await this.venueRevisionService.updateVenue(venue.id, { businessStatus }, { source: 'GOOGLE_SYNC' });
+      }
+
+      await prisma.venue.update({
+        where: { id: venue.id },
+        data: {
+          businessStatusCheckedAt: new Date(),
+          ...(!closed && venue.flagDismissedAt ? { flagDismissedAt: null } : {}),
+          ...(newlyClosed ? {
+            flaggedAt: new Date(),
+            flagReason: 'Google reports this venue as permanently closed'
+          } : {})
+        }
+      });
+
+      if (newlyClosed) {
+        flagged++;
+      }
+    }
+    return flagged;
+  }
+
+  async clearFlag(venueId: string) {
+    const { count } = await prisma.venue.updateMany({
+      where: { id: venueId, flaggedAt: { not: null } },
+      data: { flaggedAt: null, flagReason: null, flagDismissedAt: new Date() }
+    });
+
+    if (count === 0) {
+      await this.assertExists(venueId);
+      throw createError('Venue is not flagged', 409);
+    }
+  }
+
+  private async assertExists(venueId: string) {
+    const exists = await prisma.venue.count({ where: { id: venueId } });
+    if (!exists) {
+      throw createError('Venue not found', 404);
+    }
+  }
+}
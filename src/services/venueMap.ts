@@ -0,0 +1,207 @@
+import { BusyStatus, PrismaClient } from '@prisma/client';
+import { BoundingBox } from '../utils/geo';
+import { BUSY_STATUS_ORDER, currentBusyStatus, recentSnapshotsInclude } from './busyStatus';
+
+const prisma = new PrismaClient();
+
+// Roughly how close (in screen pixels, 256px tiles) venues must be to cluster
+const CLUSTER_RADIUS_PX = 60;
+// At or above this zoom every venue is returned individually
+export const MAX_CLUSTER_ZOOM = 17;
+const MAX_CACHE_ENTRIES = 500;
+
+export interface MapVenue {
+  id: string;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  rating: number | null;
+  priceRange: string;
+  images: string[];
+  currentStatus: BusyStatus | null;
+  occupancyPercentage: number;
+  busyConfidence: number;
+}
+
+export type MapMarker =
+  | { type: 'venue'; latitude: number; longitude: number; venue: MapVenue }
+  | {
+      type: 'cluster';
+      latitude: number;
+      longitude: number;
+      count: number;
+      dominantStatus: BusyStatus | null;
+      bounds: BoundingBox;
+      venue: MapVenue; // Representative venue, the busiest in the cluster
+    };
+
+interface CachedMarkers {
+  markers: MapMarker[];
+  expiresAt: number;
+}
+
+// Server-side clustering for the map view. Venues are bucketed into a fixed
+// global grid per zoom level, so clusters stay put while the user pans, and
+// results are cached briefly per grid-aligned viewport.
+export class VenueMapService {
+  private cache = new Map<string, CachedMarkers>();
+  private cacheTtlMs: number;
+
+  constructor() {
+    this.cacheTtlMs = parseInt(process.env.VENUE_MAP_CACHE_SECONDS || '15') * 1000;
+  }
+
+  async getMarkers(bounds: BoundingBox, zoom: number): Promise<MapMarker[]> {
+    const cellSize = cellSizeForZoom(zoom);
+    const snapped = snapToGrid(bounds, cellSize);
+    const cacheKey = `${zoom}:${snapped.minLatitude}:${snapped.maxLatitude}:${snapped.minLongitude}:${snapped.maxLongitude}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.markers;
+    }
+
+    const venues = await this.loadVenues(snapped);
+    const markers = zoom >= MAX_CLUSTER_ZOOM
+      ? venues.map(toVenueMarker)
+      : cluster(venues, cellSize);
+
+    this.remember(cacheKey, markers);
+    return markers;
+  }
+
+  private async loadVenues(bounds: BoundingBox): Promise<MapVenue[]> {
+    // A viewport crossing the antimeridian has minLongitude > maxLongitude
+    const longitude = bounds.minLongitude <= bounds.maxLongitude
+      ? { longitude: { gte: bounds.minLongitude, lte: bounds.maxLongitude } }
+      : { OR: [{ longitude: { gte: bounds.minLongitude } }, { longitude: { lte: bounds.maxLongitude } }] };
+
+    const venues = await prisma.venue.findMany({
+      where: {
+        latitude: { gte: bounds.minLatitude, lte: bounds.maxLatitude },
+        archivedAt: null,
+        ...longitude
+      },
+      select: {
+        id: true,
+        name: true,
+        category: true,
+        latitude: true,
+        longitude: true,
+        rating: true,
+        priceRange: true,
+        images: true,
+        ...recentSnapshotsInclude()
+      }
+    });
+
+    return venues.map(({ busySnapshots, images, ...venue }) => {
+      const { currentStatus, occupancyPercentage, busyConfidence } = currentBusyStatus(busySnapshots);
+      return { ...venue, images: images.slice(0, 1), currentStatus, occupancyPercentage, busyConfidence };
+    });
+  }
+
+  private remember(key: string, markers: MapMarker[]) {
+    const now = Date.now();
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      for (const [cachedKey, entry] of this.cache) {
+        if (entry.expiresAt <= now) {
+          this.cache.delete(cachedKey);
+        }
+      }
+      // Still full of live entries: drop the oldest
+      if (this.cache.size >= MAX_CACHE_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+    this.cache.set(key, { markers, expiresAt: now + this.cacheTtlMs });
+  }
+}
+
+// Grid cell size in degrees for a zoom level
+function cellSizeForZoom(zoom: number): number {
+  return CLUSTER_RADIUS_PX * 360 / (256 * 2 ** zoom);
+}
+
+function snapToGrid(bounds: BoundingBox, cellSize: number): BoundingBox {
+  const round = (value: number) => Number(value.toFixed(6));
+  return {
+    minLatitude: round(Math.max(-90, Math.floor(bounds.minLatitude / cellSize) * cellSize)),
+    maxLatitude: round(Math.min(90, Math.ceil(bounds.maxLatitude / cellSize) * cellSize)),
+    minLongitude: round(Math.max(-180, Math.floor(bounds.minLongitude / cellSize) * cellSize)),
+    maxLongitude: round(Math.min(180, Math.ceil(bounds.maxLongitude / cellSize) * cellSize))
+  };
+}
+
+function cluster(venues: MapVenue[], cellSize: number): MapMarker[] {
+  const cells = new Map<string, MapVenue[]>();
+  for (const venue of venues) {
+    const key = `${Math.floor(venue.latitude / cellSize)}:${Math.floor(venue.longitude / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(venue);
+    } else {
+      cells.set(key, [venue]);
+    }
+  }
+
+  return Array.from(cells.values()).map(cellVenues => {
+    if (cellVenues.length === 1) {
+      return toVenueMarker(cellVenues[0]);
+    }
+
+    const latitudes = cellVenues.map(venue => venue.latitude);
+    const longitudes = cellVenues.map(venue => venue.longitude);
+    const representative = cellVenues.reduce((best, venue) =>
+      venue.occupancyPercentage > best.occupancyPercentage ||
+      (venue.occupancyPercentage === best.occupancyPercentage && (venue.rating || 0) > (best.rating || 0))
+        ? venue
+        : best
+    );
+
+    return {
+      type: 'cluster' as const,
+      latitude: average(latitudes),
+      longitude: average(longitudes),
+      count: cellVenues.length,
+      dominantStatus: dominantStatus(cellVenues),
+      bounds: {
+        minLatitude: Math.min(...latitudes),
+        maxLatitude: Math.max(...latitudes),
+        minLongitude: Math.min(...longitudes),
+        maxLongitude: Math.max(...longitudes)
+      },
+      venue: representative
+    };
+  });
+}
+
+// Most common status among venues with busy data; ties go to the busier one
+function dominantStatus(venues: MapVenue[]): BusyStatus | null {
+  const counts = new Map<BusyStatus, number>();
+  venues.forEach(venue => {
+    if (venue.currentStatus) {
+      counts.set(venue.currentStatus, (counts.get(venue.currentStatus) || 0) + 1);
+    }
+  });
+
+  const entries = Array.from(counts.entries());
+  if (entries.length === 0) {
+    return null;
+  }
+  return entries.reduce((best, entry) =>
+    entry[1] > best[1] ||
+    (entry[1] === best[1] && BUSY_STATUS_ORDER.indexOf(entry[0]) > BUSY_STATUS_ORDER.indexOf(best[0]))
+      ? entry
+      : best
+  )[0];
+}
+
+function toVenueMarker(venue: MapVenue): MapMarker {
+  return { type: 'venue', latitude: venue.latitude, longitude: venue.longitude, venue };
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
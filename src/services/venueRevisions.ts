@@ -0,0 +1,321 @@
+import { Prisma, PrismaClient, Venue, VenueRevisionSource } from '@prisma/client';
+import { createError } from '../middleware/errorHandler';
+import { OpeningHoursError, normalizeOpeningHours } from '../utils/openingHours';
+import { DEFAULT_TIMEZONE } from '../utils/timezone';
+import { attributeNames, buildSearchText } from '../utils/venueAttributes';
+import { CategoryService } from './categories';
+
+const prisma = new PrismaClient();
+
+// Venue fields whose changes are versioned. Derived columns (searchText,
+// musicGenreNames, openingSchedule, ...) follow from these, and live
+// occupancy and archiving are tracked elsewhere.
+export const TRACKED_FIELDS = [
+  'name',
+  'category',
+  'categorySlugs', // Primary first
+  'location',
+  'latitude',
+  'longitude',
+  'timezone',
+  'capacity',
+  'rating',
+  'priceRange',
+  'pricing',
+  'musicGenres',
+  'features',
+  'openingHours',
+  'bookingURL',
+  'phoneNumber',
+  'images',
+  'placeId',
+  'externalId',
+  'businessStatus'
+] as const;
+
+export type TrackedField = typeof TRACKED_FIELDS[number];
+export type VenueValues = Partial<Record<TrackedField, any>>;
+export type VenueChanges = Partial<Record<TrackedField, { from: unknown; to: unknown }>>;
+
+export interface RevisionAuthor {
+  source: VenueRevisionSource;
+  userId?: string;
+}
+
+const CATEGORY_SLUGS_INCLUDE = {
+  categories: { select: { isPrimary: true, category: { select: { slug: true } } } }
+} as const;
+
+type VenueWithCategorySlugs = Venue & {
+  categories: { isPrimary: boolean; category: { slug: string } }[];
+};
+
+// Every venue write goes through here so each change is stored as a
+// VenueRevision with a field-level diff, its author and its source.
+export class VenueRevisionService {
+  private categoryService = new CategoryService();
+
+  async createVenue(input: VenueValues, author: RevisionAuthor): Promise<Venue> {
+    const { values, derived } = this.prepare({ timezone: DEFAULT_TIMEZONE, ...input });
+    const { categorySlugs = [], ...fields } = values;
+    const categoryLinks = await this.categoryLinks(categorySlugs);
+
+    return prisma.$transaction(async tx => {
+      const venue = await tx.venue.create({
+        data: {
+          ...columnData(fields),
+          ...derived,
+          searchText: buildSearchText(fields as Parameters<typeof buildSearchText>[0]),
+          categories: { create: categoryLinks },
+          version: 1
+        } as Prisma.VenueUncheckedCreateInput
+      });
+
+      await tx.venueRevision.create({
+        data: {
+          venueId: venue.id,
+          version: 1,
+          changes: diffVenueValues({}, values) as Prisma.InputJsonValue,
+          source: author.source,
+          authorId: author.userId
+        }
+      });
+
+      return venue;
+    });
+  }
+
+  // Applies the given fields. No revision is stored when nothing changes.
+  async updateVenue(
+    venueId: string,
+    input: VenueValues,
+    author: RevisionAuthor,
+    options: { revertedToId?: string; expectedVersion?: number } = {}
+  ) {
+    const { values, derived } = this.prepare(input);
+    const { categorySlugs, ...fields } = values;
+    const categoryLinks = categorySlugs ? await this.categoryLinks(categorySlugs) : [];
+
+    return prisma.$transaction(async tx => {
+      // Lock the row so concurrent edits diff against each other and get consecutive versions
+      await tx.$queryRaw(Prisma.sql`SELECT id FROM venues WHERE id = ${venueId} FOR UPDATE`);
+
+      const existing = await tx.venue.findUnique({
+        where: { id: venueId },
+        include: CATEGORY_SLUGS_INCLUDE
+      });
+
+      if (!existing) {
+        throw createError('Venue not found', 404);
+      }
+      if (options.expectedVersion !== undefined && existing.version !== options.expectedVersion) {
+        throw createError('Venue was changed by someone else, please try again', 409);
+      }
+
+      const changes = diffVenueValues(trackedValues(existing), values);
+      if (Object.keys(changes).length === 0) {
+        const { categories, ...venue } = existing;
+        return { venue: venue as Venue, revision: null };
+      }
+
+      const venue = await tx.venue.update({
+        where: { id: venueId },
+        data: {
+          ...columnData(fields),
+          ...derived,
+          searchText: buildSearchText({ ...existing, ...fields }),
+          // Replace the venue's categories when a list is sent
+          ...(categorySlugs ? {
+            categories: {
+              deleteMany: {},
+              create: categoryLinks
+            }
+          } : {}),
+          version: { increment: 1 }
+        }
+      });
+
+      const revision = await tx.venueRevision.create({
+        data: {
+          venueId,
+          version: venue.version,
+          changes: changes as Prisma.InputJsonValue,
+          source: author.source,
+          authorId: author.userId,
+          revertedToId: options.revertedToId
+        }
+      });
+
+      return { venue, revision };
+    });
+  }
+
+  // What updateVenue would change, without writing anything
+  async previewChanges(venueId: string, input: VenueValues): Promise<VenueChanges> {
+    const { values } = this.prepare(input);
+    const existing = await prisma.venue.findUnique({
+      where: { id: venueId },
+      include: CATEGORY_SLUGS_INCLUDE
+    });
+
+    if (!existing) {
+      throw createError('Venue not found', 404);
+    }
+    return diffVenueValues(trackedValues(existing), values);
+  }
+
+  async listRevisions(venueId: string, page: number, limit: number) {
+    const where = { venueId };
+
+    const [revisions, total] = await Promise.all([
+      prisma.venueRevision.findMany({
+        where,
+        include: {
+          author: {
+            select: { id: true, firstName: true, lastName: true }
+          }
+        },
+        orderBy: { version: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.venueRevision.count({ where })
+    ]);
+
+    return { revisions, total };
+  }
+
+  // Puts the venue back the way it was right after the given revision, by
+  // undoing every later change. The revert is itself a new revision.
+  async revert(venueId: string, revisionId: string, author: RevisionAuthor) {
+    const target = await prisma.venueRevision.findFirst({
+      where: { id: revisionId, venueId }
+    });
+
+    if (!target) {
+      throw createError('Revision not found', 404);
+    }
+
+    const later = await prisma.venueRevision.findMany({
+      where: { venueId, version: { gt: target.version } },
+      orderBy: { version: 'desc' }
+    });
+
+    if (later.length === 0) {
+      throw createError('Venue is already at this revision', 409);
+    }
+
+    // Newest first, so the oldest undone change decides each field's value
+    const values: VenueValues = {};
+    for (const revision of later) {
+      for (const [field, change] of Object.entries(revision.changes as VenueChanges)) {
+        values[field as TrackedField] = change!.from;
+      }
+    }
+
+    return this.updateVenue(venueId, values, author, {
+      revertedToId: target.id,
+      expectedVersion: later[0].version
+    });
+  }
+
+  // Normalizes tracked values and works out the derived columns
+  private prepare(input: VenueValues) {
+    const values: VenueValues = {};
+    for (const field of TRACKED_FIELDS) {
+      if (input[field] !== undefined) {
+        values[field] = input[field];
+      }
+    }
+
+    const derived: { musicGenreNames?: string[]; featureNames?: string[]; openingSchedule?: Prisma.InputJsonValue } = {};
+    if (values.openingHours !== undefined) {
+      const normalized = normalizeVenueOpeningHours(values.openingHours);
+      values.openingHours = normalized.openingHours;
+      derived.openingSchedule = normalized.openingSchedule as unknown as Prisma.InputJsonValue;
+    }
+    if (values.musicGenres !== undefined) {
+      derived.musicGenreNames = attributeNames(values.musicGenres);
+    }
+    if (values.features !== undefined) {
+      derived.featureNames = attributeNames(values.features);
+    }
+    if (values.categorySlugs !== undefined) {
+      values.categorySlugs = orderCategorySlugs(values.categorySlugs);
+    }
+
+    return { values, derived };
+  }
+
+  private async categoryLinks(slugs: string[]) {
+    const categories = slugs.length > 0 ? await this.categoryService.resolveSlugs(slugs) : [];
+    return slugs.map((slug, index) => ({
+      categoryId: categories.find(category => category.slug === slug)!.id,
+      isPrimary: index === 0
+    }));
+  }
+}
+
+// Changed fields between two sets of tracked values. Fields missing from
+// `after` are left alone; JSON is compared regardless of key order.
+export const diffVenueValues = (before: VenueValues, after: VenueValues): VenueChanges => {
+  const changes: VenueChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    if (after[field] === undefined) {
+      continue;
+    }
+
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (canonicalJson(from) !== canonicalJson(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+};
+
+function trackedValues(venue: VenueWithCategorySlugs): VenueValues {
+  const values: VenueValues = {};
+  for (const field of TRACKED_FIELDS) {
+    values[field] = field === 'categorySlugs'
+      ? orderCategorySlugs(
+          [...venue.categories]
+            .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+            .map(link => link.category.slug)
+        )
+      : venue[field];
+  }
+  return values;
+}
+
+// Only the primary (first) category's position means anything
+function orderCategorySlugs(slugs: string[]): string[] {
+  return slugs.length > 0 ? [slugs[0], ...slugs.slice(1).sort()] : [];
+}
+
+// Tracked values as venue columns. Json columns need DbNull to store SQL NULL.
+function columnData(fields: Omit<VenueValues, 'categorySlugs'>) {
+  return {
+    ...fields,
+    ...(fields.pricing === null ? { pricing: Prisma.DbNull } : {})
+  };
+}
+
+function normalizeVenueOpeningHours(openingHours: unknown) {
+  try {
+    return normalizeOpeningHours(openingHours);
+  } catch (error) {
+    if (error instanceof OpeningHoursError) {
+      throw createError(`openingHours: ${error.message}`, 400);
+    }
+    throw error;
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
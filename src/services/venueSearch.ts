@@ -0,0 +1,91 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Candidates are ranked in SQL, then re-ranked with distance and opening status
+const CANDIDATE_LIMIT = 200;
+// Minimum trigram word similarity for a typo-tolerant match
+const FUZZY_THRESHOLD = 0.3;
+// Distance at which the proximity boost has halved
+const PROXIMITY_HALF_DISTANCE_METERS = 3000;
+const OPEN_NOW_BOOST = 1.25;
+
+// Must match the expression index in the README
+const DOCUMENT = Prisma.sql`(setweight(to_tsvector('english', name), 'A') || setweight(to_tsvector('english', "searchText"), 'B'))`;
+
+export interface SearchCandidate {
+  id: string;
+  relevance: number;
+}
+
+export interface AutocompleteSuggestion {
+  id: string;
+  name: string;
+  category: string;
+  location: string;
+}
+
+// Full-text and trigram search over our own venue catalogue (needs pg_trgm).
+// Trigram matching is case-insensitive, so the indexed columns are used as-is.
+export class VenueSearchService {
+  // Venues matching q, most relevant first. Relevance adds the full-text rank
+  // (name weighted above everything else) to trigram similarity, so
+  // misspellings like "hey chika" still match.
+  async findCandidates(q: string): Promise<SearchCandidate[]> {
+    const text = q.toLowerCase();
+
+    const [, rows] = await prisma.$transaction([
+      setFuzzyThreshold(),
+      prisma.$queryRaw<{ id: string; relevance: number }[]>(Prisma.sql`
+        SELECT id,
+          ts_rank(${DOCUMENT}, websearch_to_tsquery('english', ${q})) + greatest(
+            word_similarity(${text}, name),
+            0.6 * word_similarity(${text}, "searchText")
+          ) AS relevance
+        FROM venues
+        WHERE (${DOCUMENT} @@ websearch_to_tsquery('english', ${q}) OR ${text} <% "searchText")
+          AND "archivedAt" IS NULL
+        ORDER BY relevance DESC
+        LIMIT ${CANDIDATE_LIMIT}
+      `)
+    ]);
+
+    return rows.map(row => ({ id: row.id, relevance: Number(row.relevance) }));
+  }
+
+  // Cheap prefix and fuzzy matching on venue names for the search bar
+  async autocomplete(q: string, limit: number): Promise<AutocompleteSuggestion[]> {
+    const text = q.toLowerCase();
+    const prefix = `${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const [, suggestions] = await prisma.$transaction([
+      setFuzzyThreshold(),
+      prisma.$queryRaw<AutocompleteSuggestion[]>(Prisma.sql`
+        SELECT id, name, category, location
+        FROM venues
+        WHERE (name ILIKE ${prefix} OR ${text} <% name) AND "archivedAt" IS NULL
+        ORDER BY (name ILIKE ${prefix}) DESC, word_similarity(${text}, name) DESC, name ASC
+        LIMIT ${limit}
+      `)
+    ]);
+
+    return suggestions;
+  }
+
+  // Relevance boosted for venues that are nearby and open now
+  score(relevance: number, options: { distanceMeters?: number; isOpen?: boolean | null }): number {
+    let score = relevance;
+    if (options.distanceMeters !== undefined) {
+      score *= 1 + 2 ** (-options.distanceMeters / PROXIMITY_HALF_DISTANCE_METERS);
+    }
+    if (options.isOpen) {
+      score *= OPEN_NOW_BOOST;
+    }
+    return score;
+  }
+}
+
+// The <% operator uses this threshold, and only the operator can use the trigram index
+function setFuzzyThreshold() {
+  return prisma.$executeRaw(Prisma.sql`SET LOCAL pg_trgm.word_similarity_threshold = ${Prisma.raw(String(FUZZY_THRESHOLD))}`);
+}
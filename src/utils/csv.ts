@@ -0,0 +1,78 @@
+// Minimal RFC 4180 CSV: comma separated, double-quoted fields with "" escapes,
+// CRLF or LF line endings. Quoted fields may span lines.
+
+export class CsvError extends Error {}
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Spreadsheet apps like to add a BOM
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvError('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+};
+
+// Header row plus one object per line, keyed by column name
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim());
+  return lines.map((cells, index) => {
+    if (cells.length > columns.length) {
+      throw new CsvError(`Line ${index + 2} has more cells than the header`);
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+  });
+};
+
+export const toCsv = (columns: string[], records: Record<string, string>[]): string =>
+  [columns, ...records.map(record => columns.map(column => record[column] ?? ''))]
+    .map(cells => cells.map(escapeCell).join(','))
+    .join('\r\n') + '\r\n';
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
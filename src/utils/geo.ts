@@ -0,0 +1,68 @@
+// Great-circle helpers. Distances are in metres on a spherical Earth, which is
+// within 0.5% of the true ellipsoidal distance - plenty for "near me" lists.
+
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+const toDegrees = (radians: number): number => radians * 180 / Math.PI;
+
+export const haversineDistanceMeters = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Smallest lat/lng box containing the circle, used to pre-filter rows before
+// the exact distance check. Near the poles or across the antimeridian the
+// longitude range is widened to the whole globe rather than wrapped.
+export const boundingBoxForRadius = (center: GeoPoint, radiusMeters: number): BoundingBox => {
+  const angularRadius = radiusMeters / EARTH_RADIUS_METERS;
+  const minLatitude = center.latitude - toDegrees(angularRadius);
+  const maxLatitude = center.latitude + toDegrees(angularRadius);
+
+  if (minLatitude <= -90 || maxLatitude >= 90) {
+    return {
+      minLatitude: Math.max(minLatitude, -90),
+      maxLatitude: Math.min(maxLatitude, 90),
+      minLongitude: -180,
+      maxLongitude: 180
+    };
+  }
+
+  const deltaLongitude = toDegrees(Math.asin(Math.sin(angularRadius) / Math.cos(toRadians(center.latitude))));
+  const minLongitude = center.longitude - deltaLongitude;
+  const maxLongitude = center.longitude + deltaLongitude;
+
+  if (minLongitude < -180 || maxLongitude > 180) {
+    return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180 };
+  }
+
+  return { minLatitude, maxLatitude, minLongitude, maxLongitude };
+};
+
+export const isValidLatitude = (value: number): boolean =>
+  Number.isFinite(value) && value >= -90 && value <= 90;
+
+export const isValidLongitude = (value: number): boolean =>
+  Number.isFinite(value) && value >= -180 && value <= 180;
+
+// A box crossing the antimeridian has minLongitude > maxLongitude
+export const isInBoundingBox = (point: GeoPoint, box: BoundingBox): boolean =>
+  point.latitude >= box.minLatitude && point.latitude <= box.maxLatitude &&
+  (box.minLongitude <= box.maxLongitude
+    ? point.longitude >= box.minLongitude && point.longitude <= box.maxLongitude
+    : point.longitude >= box.minLongitude || point.longitude <= box.maxLongitude);
@@ -0,0 +1,57 @@
+import { getOpeningStatus, parseOpeningHours } from './openingHours';
+
+const SYDNEY = 'Australia/Sydney';
+
+describe('getOpeningStatus', () => {
+  // Friday 8pm until 2am Saturday morning, and closed on Saturday itself
+  const lateFriday = parseOpeningHours({ friday: '8pm-2am', saturday: 'Closed' });
+
+  it('is closed before an evening opening', () => {
+    // 7pm Friday 14 March 2025
+    const status = getOpeningStatus(lateFriday, new Date('2025-03-14T08:00:00Z'), SYDNEY);
+
+    expect(status).toEqual({ isOpen: false, opensAt: new Date('2025-03-14T09:00:00Z'), closesAt: null });
+  });
+
+  it('is open before midnight, closing the next morning', () => {
+    // 11pm Friday
+    const status = getOpeningStatus(lateFriday, new Date('2025-03-14T12:00:00Z'), SYDNEY);
+
+    expect(status).toEqual({ isOpen: true, opensAt: null, closesAt: new Date('2025-03-14T15:00:00Z') });
+  });
+
+  it('is still open after midnight on a day that is otherwise closed', () => {
+    // 1am Saturday
+    const status = getOpeningStatus(lateFriday, new Date('2025-03-14T14:00:00Z'), SYDNEY);
+
+    expect(status).toEqual({ isOpen: true, opensAt: null, closesAt: new Date('2025-03-14T15:00:00Z') });
+  });
+
+  it('is closed once the late range ends, until the next opening', () => {
+    // 3am Saturday
+    const status = getOpeningStatus(lateFriday, new Date('2025-03-14T16:00:00Z'), SYDNEY);
+
+    // 8pm the following Friday
+    expect(status).toEqual({ isOpen: false, opensAt: new Date('2025-03-21T09:00:00Z'), closesAt: null });
+  });
+
+  it('keeps the local closing time when the clocks go back overnight', () => {
+    const lateSaturday = parseOpeningHours({ saturday: '8pm-3am' });
+
+    // 2:30am Sunday 6 April 2025, the first time round
+    const status = getOpeningStatus(lateSaturday, new Date('2025-04-05T15:30:00Z'), SYDNEY);
+
+    // 3am standard time, eight hours after opening
+    expect(status).toEqual({ isOpen: true, opensAt: null, closesAt: new Date('2025-04-05T17:00:00Z') });
+  });
+
+  it('keeps the local closing time when the clocks go forward overnight', () => {
+    const lateSaturday = parseOpeningHours({ saturday: '8pm-3am' });
+
+    // 1:30am Sunday 5 October 2025
+    const status = getOpeningStatus(lateSaturday, new Date('2025-10-04T15:30:00Z'), SYDNEY);
+
+    // 3am daylight time, six hours after opening
+    expect(status).toEqual({ isOpen: true, opensAt: null, closesAt: new Date('2025-10-04T16:00:00Z') });
+  });
+});
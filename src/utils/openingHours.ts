@@ -0,0 +1,301 @@
+import { WEEKDAYS, Weekday, addDays, fromLocalTime, toLocalDateTime, weekdayOf } from './timezone';
+
+// Structured opening hours. Venues submit either the legacy day -> text map
+// ({ monday: '11am-3am', sunday: 'Closed' }) or a structured schedule:
+//
+// {
+//   weekly: { friday: '5pm-Late', saturday: [{ opens: '17:00', closes: '03:00' }] },
+//   publicHolidays: 'Closed',                       // optional, otherwise weekly hours apply
+//   exceptions: [{ date: '2025-12-24', hours: '5pm-10pm', note: 'Christmas Eve' }]
+// }
+//
+// Times are venue-local 'HH:MM'. A closing time at or before the opening time
+// means the venue closes after midnight on the following day.
+
+export interface TimeRange {
+  opens: string;
+  closes: string;
+}
+
+export interface ScheduleException {
+  date: string;
+  ranges: TimeRange[];
+  note?: string;
+}
+
+export interface OpeningSchedule {
+  weekly: Record<Weekday, TimeRange[]>;
+  publicHolidays: TimeRange[] | null;
+  exceptions: ScheduleException[];
+}
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  opensAt: Date | null;
+  closesAt: Date | null;
+}
+
+// "Late" has no fixed time; treat it as 3am
+const LATE_CLOSING_TIME = '03:00';
+// Days a venue only opens for events ('Event Dependent', 'Occasional events').
+// They have no regular hours; the venue's events say when it's open.
+const BY_EVENT_PATTERN = /^(by events?|events? (dependent|only)|occasional events?|events? nights? only)$/;
+// How far ahead to look for the next opening
+const LOOKAHEAD_DAYS = 8;
+
+const DAY_ALIASES: Record<string, Weekday> = {
+  sun: 'sunday',
+  mon: 'monday',
+  tue: 'tuesday',
+  tues: 'tuesday',
+  wed: 'wednesday',
+  thu: 'thursday',
+  thur: 'thursday',
+  thurs: 'thursday',
+  fri: 'friday',
+  sat: 'saturday'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class OpeningHoursError extends Error {}
+
+// Parse and validate opening hours in either accepted format
+export const parseOpeningHours = (input: unknown): OpeningSchedule => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new OpeningHoursError('openingHours must be an object');
+  }
+
+  const data = input as Record<string, unknown>;
+  const structured = isStructured(data);
+
+  const schedule: OpeningSchedule = {
+    weekly: parseWeekly(structured ? data.weekly || {} : data),
+    publicHolidays: null,
+    exceptions: []
+  };
+
+  if (!structured) {
+    return schedule;
+  }
+
+  if (data.publicHolidays !== undefined && data.publicHolidays !== null) {
+    schedule.publicHolidays = parseRanges(data.publicHolidays, 'publicHolidays');
+  }
+
+  if (data.exceptions !== undefined) {
+    if (!Array.isArray(data.exceptions)) {
+      throw new OpeningHoursError('exceptions must be an array');
+    }
+    schedule.exceptions = data.exceptions.map((exception, index) => {
+      const label = `exceptions[${index}]`;
+      if (!exception || typeof exception !== 'object') {
+        throw new OpeningHoursError(`${label} must be an object`);
+      }
+      const { date, hours, note } = exception as { date?: unknown; hours?: unknown; note?: unknown };
+      if (typeof date !== 'string' || !DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+        throw new OpeningHoursError(`${label}.date must be a YYYY-MM-DD date`);
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        throw new OpeningHoursError(`${label}.note must be a string`);
+      }
+      return {
+        date,
+        ranges: parseRanges(hours === undefined ? 'Closed' : hours, `${label}.hours`),
+        ...(typeof note === 'string' && note ? { note } : {})
+      };
+    }).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return schedule;
+};
+
+// Parse submitted opening hours into the stored columns: openingHours keeps the
+// legacy text map clients display, openingSchedule the structured schedule.
+export const normalizeOpeningHours = (input: unknown) => {
+  const openingSchedule = parseOpeningHours(input);
+  return {
+    openingHours: isStructured(input as object) ? formatOpeningHours(openingSchedule) : input,
+    openingSchedule
+  };
+};
+
+// Whether the venue is open at an instant, when it next opens and when it closes.
+// holidays are public holiday dates ('YYYY-MM-DD') in the venue's calendar.
+export const getOpeningStatus = (
+  schedule: OpeningSchedule,
+  at: Date,
+  timeZone: string,
+  holidays: Set<string> = new Set()
+): OpeningStatus => {
+  const today = toLocalDateTime(at, timeZone).date;
+  const time = at.getTime();
+
+  // Start a day early to catch last night's hours running past midnight
+  const intervals: { start: number; end: number }[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(today, offset);
+    for (const range of rangesForDate(schedule, date, holidays)) {
+      const opens = toMinutes(range.opens);
+      let closes = toMinutes(range.closes);
+      if (closes <= opens) {
+        closes += 24 * 60;
+      }
+      intervals.push({
+        start: fromLocalTime(date, opens, timeZone).getTime(),
+        end: fromLocalTime(date, closes, timeZone).getTime()
+      });
+    }
+  }
+
+  // Join back-to-back ranges (e.g. open 24 hours) into one opening
+  intervals.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const current = merged.find(interval => interval.start <= time && time < interval.end);
+  if (current) {
+    return { isOpen: true, opensAt: null, closesAt: new Date(current.end) };
+  }
+
+  const next = merged.find(interval => interval.start > time);
+  return { isOpen: false, opensAt: next ? new Date(next.start) : null, closesAt: null };
+};
+
+// Legacy day -> text map, for clients that display openingHours directly
+export const formatOpeningHours = (schedule: OpeningSchedule): Record<Weekday, string> => {
+  const formatted = {} as Record<Weekday, string>;
+  for (const day of [...WEEKDAYS.slice(1), WEEKDAYS[0]]) {
+    const ranges = schedule.weekly[day];
+    if (ranges.length === 0) {
+      formatted[day] = 'Closed';
+    } else if (ranges.length === 1 && ranges[0].opens === '00:00' && ranges[0].closes === '00:00') {
+      formatted[day] = '24 hours';
+    } else {
+      formatted[day] = ranges.map(range => `${formatTime(range.opens)}-${formatTime(range.closes)}`).join(', ');
+    }
+  }
+  return formatted;
+};
+
+function isStructured(data: object): boolean {
+  return 'weekly' in data || 'exceptions' in data || 'publicHolidays' in data;
+}
+
+function rangesForDate(schedule: OpeningSchedule, date: string, holidays: Set<string>): TimeRange[] {
+  const exception = schedule.exceptions.find(candidate => candidate.date === date);
+  if (exception) {
+    return exception.ranges;
+  }
+  if (schedule.publicHolidays && holidays.has(date)) {
+    return schedule.publicHolidays;
+  }
+  return schedule.weekly[WEEKDAYS[weekdayOf(date)]];
+}
+
+function parseWeekly(input: unknown): Record<Weekday, TimeRange[]> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new OpeningHoursError('weekly must be an object');
+  }
+
+  // Days that aren't listed are closed
+  const weekly = Object.fromEntries(WEEKDAYS.map(day => [day, []])) as unknown as Record<Weekday, TimeRange[]>;
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    const normalized = key.trim().toLowerCase();
+    const day = (WEEKDAYS as readonly string[]).includes(normalized)
+      ? normalized as Weekday
+      : DAY_ALIASES[normalized];
+    if (!day) {
+      throw new OpeningHoursError(`Unknown day "${key}"`);
+    }
+    weekly[day] = parseRanges(value, day);
+  }
+
+  return weekly;
+}
+
+// Accepts 'Closed', '24 hours', 'By event', '11am-3am', '12pm-3pm, 5pm-Late', or [{ opens, closes }]
+function parseRanges(value: unknown, label: string): TimeRange[] {
+  if (Array.isArray(value)) {
+    return value.map((range, index) => {
+      const { opens, closes } = (range || {}) as Record<string, unknown>;
+      if (typeof opens !== 'string' || typeof closes !== 'string') {
+        throw new OpeningHoursError(`${label}[${index}] must have opens and closes times`);
+      }
+      return { opens: parseTime(opens, label), closes: parseTime(closes, label) };
+    });
+  }
+
+  if (typeof value !== 'string') {
+    throw new OpeningHoursError(`${label} must be a string or a list of times`);
+  }
+
+  const text = value.trim().toLowerCase();
+  if (text === '' || text === 'closed' || BY_EVENT_PATTERN.test(text)) {
+    return [];
+  }
+  if (/^(open )?24 ?(hours|hrs|h)$/.test(text)) {
+    return [{ opens: '00:00', closes: '00:00' }];
+  }
+
+  return text.split(/\s*(?:,|&|;|\band\b)\s*/).map(part => {
+    const times = part.split(/\s*(?:-|–|—|\bto\b)\s*/);
+    if (times.length !== 2) {
+      throw new OpeningHoursError(`${label}: couldn't read "${part}" as a time range`);
+    }
+    return { opens: parseTime(times[0], label), closes: parseTime(times[1], label) };
+  });
+}
+
+// '11am', '5:30pm', '17:00', 'noon', 'midnight', 'late' -> 'HH:MM'
+function parseTime(value: string, label: string): string {
+  const text = value.trim().toLowerCase().replace(/\./g, '');
+
+  if (text === 'late') return LATE_CLOSING_TIME;
+  if (text === 'midnight') return '00:00';
+  if (text === 'noon' || text === 'midday') return '12:00';
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) {
+    throw new OpeningHoursError(`${label}: couldn't read "${value}" as a time`);
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      throw new OpeningHoursError(`${label}: "${value}" is not a valid time`);
+    }
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hours === 24 && minutes === 0) {
+    hours = 0;
+  }
+
+  if (hours > 23 || minutes > 59) {
+    throw new OpeningHoursError(`${label}: "${value}" is not a valid time`);
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const suffix = hours < 12 ? 'am' : 'pm';
+  return minutes === 0 ? `${hour12}${suffix}` : `${hour12}:${String(minutes).padStart(2, '0')}${suffix}`;
+}
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { parsePopularTimes } from './popularTimes';
+import { SerpAPIService } from '../services/serpApi';
+
+const fixture = (name: string) =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, '../__fixtures__/serpapi', name), 'utf8'));
+
+describe('parsePopularTimes', () => {
+  it('reads SerpAPI graph results into 24 venue-local hours a day', () => {
+    const weekly = parsePopularTimes(fixture('place_results.json').place_results.popular_times)!;
+
+    expect(Object.keys(weekly).sort()).toEqual(
+      ['friday', 'monday', 'saturday', 'sunday', 'thursday', 'tuesday', 'wednesday']
+    );
+    Object.values(weekly).forEach(hours => expect(hours).toHaveLength(24));
+
+    expect(weekly.saturday[16]).toBe(12);
+    expect(weekly.saturday[23]).toBe(100);
+    expect(weekly.friday[6]).toBe(0);
+    // After-midnight entries land on the early hours of the same weekday
+    expect(weekly.friday[1]).toBe(74);
+  });
+
+  it('leaves days SerpAPI has no graph for at zero', () => {
+    const weekly = parsePopularTimes(fixture('place_results.json').place_results.popular_times)!;
+
+    expect(weekly.monday).toEqual(Array(24).fill(0));
+  });
+
+  it('reads category estimates', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const weekly = parsePopularTimes(new SerpAPIService().generateEstimatedPopularTimes('Cocktail Bar'))!;
+
+    expect(weekly.saturday).toHaveLength(24);
+    expect(Math.max(...weekly.saturday)).toBeGreaterThan(0);
+  });
+
+  it('returns null when there are no scores', () => {
+    expect(parsePopularTimes(undefined)).toBeNull();
+    expect(parsePopularTimes({ graph_results: {} })).toBeNull();
+    expect(parsePopularTimes({ graph_results: { monday: [{ time: '6 AM' }] } })).toBeNull();
+  });
+});
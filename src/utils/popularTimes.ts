@@ -0,0 +1,66 @@
+import { WEEKDAYS, Weekday } from './timezone';
+
+// Typical busyness (0-100, relative to the venue's busiest hour) for each
+// venue-local hour of the week: { monday: [24 scores], ... }
+export type WeeklyPopularity = Record<Weekday, number[]>;
+
+// Reads popular times in either shape we get them in:
+//
+// SerpAPI google_maps results
+//   { graph_results: { monday: [{ time: '6 AM', busyness_score: 35 }, ...], ... } }
+// SerpAPIService.generateEstimatedPopularTimes
+//   { graph_results: { data: { Monday: [24 scores], ... } } }
+//
+// Returns null when there's no usable data.
+export const parsePopularTimes = (input: unknown): WeeklyPopularity | null => {
+  const graph = asObject(asObject(input)?.graph_results);
+  if (!graph) {
+    return null;
+  }
+
+  const days = asObject(graph.data) || graph;
+  const weekly = {} as WeeklyPopularity;
+  let hasData = false;
+
+  for (const weekday of WEEKDAYS) {
+    const hours: number[] = Array(24).fill(0);
+    const entry = Object.entries(days).find(([key]) => key.toLowerCase() === weekday)?.[1];
+
+    if (Array.isArray(entry)) {
+      entry.forEach((item, index) => {
+        const hour = typeof item === 'number' ? index : parseHour(asObject(item)?.time);
+        const score = typeof item === 'number' ? item : asObject(item)?.busyness_score;
+        if (hour !== null && typeof score === 'number' && Number.isFinite(score)) {
+          hours[hour] = Math.max(0, Math.min(100, Math.round(score)));
+          hasData = true;
+        }
+      });
+    }
+    weekly[weekday] = hours;
+  }
+
+  return hasData ? weekly : null;
+};
+
+// '6 AM', '12 PM', '11 pm' or '18:00' -> hour of the day
+function parseHour(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2})(?::\d{2})?\s*([ap])\.?m?\.?$/i) : null;
+  if (match) {
+    const hour = parseInt(match[1], 10);
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    return (hour % 12) + (match[2].toLowerCase() === 'p' ? 12 : 0);
+  }
+
+  const clock = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):\d{2}$/) : null;
+  if (clock) {
+    const hour = parseInt(clock[1], 10);
+    return hour < 24 ? hour : null;
+  }
+  return null;
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
@@ -0,0 +1,84 @@
+import { fromLocalTime, toLocalDateTime, tonightWindow } from './timezone';
+
+// Sydney moves forward an hour at 2am on 5 October 2025 (+10 -> +11) and
+// back an hour at 3am on 6 April 2025 (+11 -> +10)
+const SYDNEY = 'Australia/Sydney';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('fromLocalTime', () => {
+  it('converts a venue-local time on an ordinary day', () => {
+    expect(fromLocalTime('2025-07-01', 20 * 60, SYDNEY)).toEqual(new Date('2025-07-01T10:00:00Z'));
+  });
+
+  it('runs minutes past midnight into the next day', () => {
+    expect(fromLocalTime('2025-07-01', 26 * 60, SYDNEY)).toEqual(new Date('2025-07-01T16:00:00Z'));
+  });
+
+  it('moves a time skipped by spring forward to after the change', () => {
+    const skipped = fromLocalTime('2025-10-05', 2 * 60 + 30, SYDNEY);
+
+    expect(skipped).toEqual(new Date('2025-10-04T16:30:00Z'));
+    expect(toLocalDateTime(skipped, SYDNEY)).toMatchObject({ date: '2025-10-05', hour: 3, minute: 30 });
+    expect(fromLocalTime('2025-10-05', 60, SYDNEY)).toEqual(new Date('2025-10-04T15:00:00Z'));
+    expect(fromLocalTime('2025-10-05', 4 * 60, SYDNEY)).toEqual(new Date('2025-10-04T17:00:00Z'));
+  });
+
+  it('has a 23 hour spring forward day', () => {
+    const start = fromLocalTime('2025-10-05', 0, SYDNEY);
+    const end = fromLocalTime('2025-10-05', 24 * 60, SYDNEY);
+
+    expect(end.getTime() - start.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('resolves a time repeated by fall back to one of its occurrences', () => {
+    const repeated = fromLocalTime('2025-04-06', 2 * 60 + 30, SYDNEY);
+
+    expect(['2025-04-05T15:30:00.000Z', '2025-04-05T16:30:00.000Z']).toContain(repeated.toISOString());
+    expect(toLocalDateTime(repeated, SYDNEY)).toMatchObject({ date: '2025-04-06', hour: 2, minute: 30 });
+  });
+
+  it('has a 25 hour fall back day', () => {
+    const start = fromLocalTime('2025-04-06', 0, SYDNEY);
+    const end = fromLocalTime('2025-04-06', 24 * 60, SYDNEY);
+
+    expect(end.getTime() - start.getTime()).toBe(25 * HOUR_MS);
+  });
+});
+
+describe('tonightWindow', () => {
+  it('runs from 5pm to 6am venue-local', () => {
+    // Noon on 1 July
+    const window = tonightWindow(new Date('2025-07-01T02:00:00Z'), SYDNEY);
+
+    expect(window).toEqual({
+      start: new Date('2025-07-01T07:00:00Z'),
+      end: new Date('2025-07-01T20:00:00Z')
+    });
+  });
+
+  it('still means last night in the early hours', () => {
+    // 1am on 2 July
+    const window = tonightWindow(new Date('2025-07-01T15:00:00Z'), SYDNEY);
+
+    expect(window.start).toEqual(new Date('2025-07-01T07:00:00Z'));
+  });
+
+  it('is an hour shorter on the spring forward night', () => {
+    const window = tonightWindow(new Date('2025-10-04T12:00:00Z'), SYDNEY);
+
+    expect(window).toEqual({
+      start: new Date('2025-10-04T07:00:00Z'),
+      end: new Date('2025-10-04T19:00:00Z')
+    });
+  });
+
+  it('is an hour longer on the fall back night', () => {
+    // 1am on 6 April, before the clocks go back
+    const window = tonightWindow(new Date('2025-04-05T14:00:00Z'), SYDNEY);
+
+    expect(window).toEqual({
+      start: new Date('2025-04-05T06:00:00Z'),
+      end: new Date('2025-04-05T20:00:00Z')
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// Wall-clock conversions for IANA time zones using the built-in Intl API.
+// Calendar dates are 'YYYY-MM-DD' strings in the zone's local calendar.
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_VENUE_TIMEZONE || 'Australia/Brisbane';
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface LocalDateTime {
+  date: string;
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+  minuteOfDay: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const toLocalDateTime = (instant: Date, timeZone: string): LocalDateTime => {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const date = formatDate(parts.year, parts.month, parts.day);
+  return {
+    date,
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    weekday: weekdayOf(date),
+    minuteOfDay: parts.hour * 60 + parts.minute
+  };
+};
+
+// UTC offset of the zone at an instant, in milliseconds
+const offsetAt = (instant: number, timeZone: string): number => {
+  const local = toLocalDateTime(new Date(instant), timeZone);
+  const seconds = new Date(instant).getUTCSeconds();
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, seconds);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// The instant a local date and minute-of-day occurs in a zone. Minutes may
+// run past 1440 into the following days. Times skipped by a DST change
+// resolve to the equivalent time after the change.
+export const fromLocalTime = (date: string, minuteOfDay: number, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+
+  const firstGuess = wallClock - offsetAt(wallClock, timeZone);
+  const offset = offsetAt(firstGuess, timeZone);
+  const secondGuess = wallClock - offset;
+  if (secondGuess === firstGuess || offsetAt(secondGuess, timeZone) === offset) {
+    return new Date(secondGuess);
+  }
+
+  // The wall time falls in a DST gap
+  return new Date(Math.max(firstGuess, secondGuess));
+};
+
+// "Tonight" runs from 5pm until 6am the next morning, venue-local
+const NIGHT_STARTS_MINUTE = 17 * 60;
+const NIGHT_ENDS_MINUTE = 6 * 60;
+
+// The night containing an instant, or the coming night during the daytime
+export const tonightWindow = (at: Date, timeZone: string): { start: Date; end: Date } => {
+  const local = toLocalDateTime(at, timeZone);
+  const evening = local.minuteOfDay < NIGHT_ENDS_MINUTE ? addDays(local.date, -1) : local.date;
+  return {
+    start: fromLocalTime(evening, NIGHT_STARTS_MINUTE, timeZone),
+    end: fromLocalTime(evening, 24 * 60 + NIGHT_ENDS_MINUTE, timeZone)
+  };
+};
+
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+};
+
+export const weekdayOf = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -1,18 +1,71 @@
 import Joi from 'joi';
+import { VENUE_PERMISSIONS, VENUE_STAFF_ROLES } from './venuePermissions';
+import { isValidTimeZone } from './timezone';
 
 // Auth validation schemas
 export const signUpSchema = Joi.object({
   email: Joi.string().email().required(),
   password: Joi.string().min(8).required(),
   firstName: Joi.string().min(1).max(50).required(),
-  lastName: Joi.string().min(1).max(50).required()
+  lastName: Joi.string().min(1).max(50).required(),
+  deviceName: Joi.string().max(100).optional()
 });
 
 export const signInSchema = Joi.object({
   email: Joi.string().email().required(),
-  password: Joi.string().required()
+  password: Joi.string().required(),
+  deviceName: Joi.string().max(100).optional()
 });
 
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+export const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(8).required()
+});
+
+export const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().required(),
+  newPassword: Joi.string().min(8).invalid(Joi.ref('currentPassword')).required()
+    .messages({ 'any.invalid': 'New password must be different from the current password' })
+});
+
+export const oauthSignInSchema = Joi.object({
+  idToken: Joi.string().required(),
+  nonce: Joi.string().max(200).optional(),
+  firstName: Joi.string().min(1).max(50).optional(),
+  lastName: Joi.string().min(1).max(50).optional(),
+  deviceName: Joi.string().max(100).optional()
+});
+
+// Two-factor validation schemas
+export const twoFactorCodeSchema = Joi.object({
+  code: Joi.string().pattern(/^\d{6}$/).required()
+});
+
+export const twoFactorSignInSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string().pattern(/^\d{6}$/),
+  recoveryCode: Joi.string().max(20),
+  deviceName: Joi.string().max(100).optional()
+}).xor('code', 'recoveryCode');
+
+export const disableTwoFactorSchema = Joi.object({
+  password: Joi.string().optional(), // Required when the account has a password
+  code: Joi.string().pattern(/^\d{6}$/),
+  recoveryCode: Joi.string().max(20)
+}).xor('code', 'recoveryCode');
+
 // Venue validation schemas
 export const createVenueSchema = Joi.object({
   name: Joi.string().min(1).max(100).required(),
@@ -30,7 +83,18 @@ export const createVenueSchema = Joi.object({
   bookingURL: Joi.string().uri().optional(),
   phoneNumber: Joi.string().optional(),
   images: Joi.array().items(Joi.string().uri()).optional(),
-  placeId: Joi.string().optional()
+  placeId: Joi.string().optional(),
+  externalId: Joi.string().max(100).optional(),
+  categorySlugs: Joi.array().items(Joi.string()).unique().max(10).optional(), // First is the primary category
+  timezone: Joi.string().custom((value, helpers) =>
+    isValidTimeZone(value) ? value : helpers.message({ custom: 'timezone must be a valid IANA time zone' })
+  ).optional()
+});
+
+// One row of a bulk import. `id` matches an existing venue; rows can also
+// match on placeId or externalId (see src/services/venueImport.ts).
+export const importVenueSchema = createVenueSchema.keys({
+  id: Joi.string().optional()
 });
 
 export const updateVenueSchema = createVenueSchema.fork(
@@ -38,6 +102,144 @@ export const updateVenueSchema = createVenueSchema.fork(
   (schema) => schema.optional()
 );
 
+export const VENUE_SORTS = ['name', 'distance', 'rating', 'busyness'] as const;
+const BUSY_STATUSES = ['QUIET', 'MODERATE', 'BUSY', 'VERY_BUSY', 'CLOSED'];
+
+// GET /venues query string. Lists are comma separated.
+export const listVenuesQuerySchema = Joi.object({
+  lat: Joi.number().min(-90).max(90),
+  lng: Joi.number().min(-180).max(180),
+  radius: Joi.number().positive().default(10000),
+  category: Joi.string(),
+  priceRange: Joi.string().pattern(/^\$+(,\$+)*$/)
+    .messages({ 'string.pattern.base': 'priceRange must be a comma separated list like $$,$$$' }),
+  musicGenres: Joi.string(),
+  features: Joi.string(),
+  minRating: Joi.number().min(0).max(5),
+  minCapacity: Joi.number().integer().min(0),
+  maxCapacity: Joi.number().integer().min(0),
+  busyStatus: Joi.string().pattern(new RegExp(`^(${BUSY_STATUSES.join('|')})(,(${BUSY_STATUSES.join('|')}))*$`))
+    .messages({ 'string.pattern.base': `busyStatus must be a comma separated list of ${BUSY_STATUSES.join(', ')}` }),
+  hasActiveDeal: Joi.boolean(),
+  hasEventTonight: Joi.boolean(),
+  openNow: Joi.boolean(),
+  openAt: Joi.date().iso(),
+  closingSoon: Joi.boolean(),
+  sort: Joi.string().valid(...VENUE_SORTS).default('name'),
+  order: Joi.string().valid('asc', 'desc'),
+  limit: Joi.number().integer().min(1).max(50).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+}).and('lat', 'lng');
+
+export const searchVenuesQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(100).required(),
+  lat: Joi.number().min(-90).max(90),
+  lng: Joi.number().min(-180).max(180),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+}).and('lat', 'lng');
+
+export const autocompleteVenuesQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(50).required(),
+  limit: Joi.number().integer().min(1).max(20).default(8)
+});
+
+// GET /venues/:id/busy/forecast query string. Up to a week ahead.
+export const busyForecastQuerySchema = Joi.object({
+  hours: Joi.number().integer().min(1).max(168).default(24)
+});
+
+// Category validation schemas
+const slugPattern = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const createCategorySchema = Joi.object({
+  name: Joi.string().min(1).max(50).required(),
+  slug: Joi.string().pattern(slugPattern).max(60).optional()
+    .messages({ 'string.pattern.base': 'slug must be lowercase words separated by hyphens' }),
+  parentId: Joi.string().allow(null).optional(),
+  googleTypes: Joi.array().items(Joi.string().lowercase()).unique().default([]),
+  sortOrder: Joi.number().integer().default(0)
+});
+
+export const updateCategorySchema = Joi.object({
+  name: Joi.string().min(1).max(50).optional(),
+  slug: Joi.string().pattern(slugPattern).max(60).optional()
+    .messages({ 'string.pattern.base': 'slug must be lowercase words separated by hyphens' }),
+  parentId: Joi.string().allow(null).optional(),
+  googleTypes: Joi.array().items(Joi.string().lowercase()).unique().optional(),
+  sortOrder: Joi.number().integer().optional()
+});
+
+export const createPublicHolidaySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required()
+    .messages({ 'string.pattern.base': 'date must be a YYYY-MM-DD date' }),
+  name: Joi.string().min(1).max(100).required()
+});
+
+export const archiveVenueSchema = Joi.object({
+  reason: Joi.string().min(3).max(500).required()
+});
+
+// Occupancy validation schemas
+export const createOccupancyDeviceSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required()
+});
+
+// A door count: people in and out since the last reading, or an absolute headcount
+const occupancyReadingSchema = Joi.object({
+  timestamp: Joi.date().iso(),
+  entries: Joi.number().integer().min(0),
+  exits: Joi.number().integer().min(0),
+  count: Joi.number().integer().min(0)
+}).or('entries', 'exits', 'count').without('count', ['entries', 'exits']);
+
+export const ingestOccupancySchema = Joi.object({
+  readings: Joi.array().items(occupancyReadingSchema).min(1).max(500).required()
+});
+
+// GET /stream/busy query string: comma separated venue IDs or a map viewport
+export const busyStreamQuerySchema = Joi.object({
+  venueIds: Joi.string(),
+  minLat: Joi.number().min(-90).max(90),
+  maxLat: Joi.number().min(-90).max(90),
+  minLng: Joi.number().min(-180).max(180),
+  maxLng: Joi.number().min(-180).max(180),
+  // For clients that can't send a Last-Event-ID header
+  lastEventId: Joi.string().max(100)
+}).and('minLat', 'maxLat', 'minLng', 'maxLng').xor('venueIds', 'minLat')
+  .messages({ 'object.missing': 'Pass venueIds or minLat, maxLat, minLng and maxLng' });
+
+// A user's report of how busy a venue is right now
+export const reportBusyStatusSchema = Joi.object({
+  status: Joi.string().valid(...BUSY_STATUSES).required()
+});
+
+// Venue staff validation schemas
+export const updateStaffMemberSchema = Joi.object({
+  role: Joi.string().valid(...VENUE_STAFF_ROLES).required(),
+  permissions: Joi.array().items(Joi.string().valid(...VENUE_PERMISSIONS)).unique().default([])
+});
+
+export const createVenueInviteSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: Joi.string().valid(...VENUE_STAFF_ROLES).required(),
+  permissions: Joi.array().items(Joi.string().valid(...VENUE_PERMISSIONS)).unique().default([])
+});
+
+export const acceptVenueInviteSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+export const createVenueClaimSchema = Joi.object({
+  evidence: Joi.string().min(10).max(2000).required(),
+  evidenceUrls: Joi.array().items(Joi.string().uri()).max(10).default([]),
+  contactPhone: Joi.string().pattern(/^[\+]?[1-9][\d]{0,15}$/).optional()
+});
+
+export const reviewVenueClaimSchema = Joi.object({
+  note: Joi.string().max(1000).optional()
+});
+
 // Deal validation schemas
 export const createDealSchema = Joi.object({
   title: Joi.string().min(1).max(100).required(),
@@ -84,8 +286,39 @@ export const updateUserSchema = Joi.object({
 // Validation helper functions
 export const validateSignUp = (data: any) => signUpSchema.validate(data);
 export const validateSignIn = (data: any) => signInSchema.validate(data);
+export const validateRefreshToken = (data: any) => refreshTokenSchema.validate(data);
+export const validateVerifyEmail = (data: any) => verifyEmailSchema.validate(data);
+export const validateForgotPassword = (data: any) => forgotPasswordSchema.validate(data);
+export const validateResetPassword = (data: any) => resetPasswordSchema.validate(data);
+export const validateChangePassword = (data: any) => changePasswordSchema.validate(data);
+export const validateOAuthSignIn = (data: any) => oauthSignInSchema.validate(data);
+export const validateTwoFactorCode = (data: any) => twoFactorCodeSchema.validate(data);
+export const validateTwoFactorSignIn = (data: any) => twoFactorSignInSchema.validate(data);
+export const validateDisableTwoFactor = (data: any) => disableTwoFactorSchema.validate(data);
 export const validateCreateVenue = (data: any) => createVenueSchema.validate(data);
 export const validateUpdateVenue = (data: any) => updateVenueSchema.validate(data);
+export const validateImportVenue = (data: any) =>
+  importVenueSchema.validate(data, { abortEarly: false, stripUnknown: true });
+// Unknown parameters (cache busters, tracking tags) are dropped rather than rejected
+export const validateListVenuesQuery = (data: any) => listVenuesQuerySchema.validate(data, { stripUnknown: true });
+export const validateSearchVenuesQuery = (data: any) => searchVenuesQuerySchema.validate(data);
+export const validateAutocompleteVenuesQuery = (data: any) => autocompleteVenuesQuerySchema.validate(data);
+export const validateBusyForecastQuery = (data: any) => busyForecastQuerySchema.validate(data);
+export const validateCreateCategory = (data: any) => createCategorySchema.validate(data);
+export const validateUpdateCategory = (data: any) => updateCategorySchema.validate(data);
+export const validateCreatePublicHoliday = (data: any) => createPublicHolidaySchema.validate(data);
+export const validateArchiveVenue = (data: any) => archiveVenueSchema.validate(data);
+export const validateUpdateStaffMember = (data: any) => updateStaffMemberSchema.validate(data);
+export const validateCreateVenueInvite = (data: any) => createVenueInviteSchema.validate(data);
+export const validateCreateOccupancyDevice = (data: any) => createOccupancyDeviceSchema.validate(data);
+// Accepts a single reading or { readings: [...] }
+export const validateIngestOccupancy = (data: any) =>
+  ingestOccupancySchema.validate(data && data.readings !== undefined ? data : { readings: [data] });
+export const validateBusyStreamQuery = (data: any) => busyStreamQuerySchema.validate(data);
+export const validateReportBusyStatus = (data: any) => reportBusyStatusSchema.validate(data);
+export const validateAcceptVenueInvite = (data: any) => acceptVenueInviteSchema.validate(data);
+export const validateCreateVenueClaim = (data: any) => createVenueClaimSchema.validate(data);
+export const validateReviewVenueClaim = (data: any) => reviewVenueClaimSchema.validate(data);
 export const validateCreateDeal = (data: any) => createDealSchema.validate(data);
 export const validateCreateEvent = (data: any) => createEventSchema.validate(data);
 export const validateCreatePost = (data: any) => createPostSchema.validate(data);
@@ -0,0 +1,54 @@
+// musicGenres and features are stored as JSON objects ({ name, icon, ... }) for
+// display. Their lowercased names are copied into musicGenreNames/featureNames
+// so they can be filtered with array operators and a GIN index.
+export const attributeNames = (items: unknown[] | undefined | null): string[] => {
+  const names = (items || [])
+    .map(item => (item && typeof item === 'object' ? (item as { name?: unknown }).name : undefined))
+    .filter((name): name is string => typeof name === 'string' && name.trim() !== '')
+    .map(name => name.trim().toLowerCase());
+
+  return Array.from(new Set(names));
+};
+
+// "Live Music, dance floor" -> ['live music', 'dance floor']
+export const parseNameList = (value: unknown): string[] =>
+  typeof value === 'string'
+    ? value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : [];
+
+// Text matched by venue search (see src/services/venueSearch.ts)
+export const buildSearchText = (venue: {
+  name: string;
+  category: string;
+  location: string;
+  musicGenres?: unknown[] | null;
+  features?: unknown[] | null;
+}): string =>
+  [
+    venue.name,
+    venue.category,
+    venue.location,
+    ...attributeNames(venue.musicGenres),
+    ...attributeNames(venue.features)
+  ].join(' ').toLowerCase();
+
+// Columns that only exist for searching and filtering, or for admins
+// reviewing the venue, and are left out of venue responses
+const INTERNAL_VENUE_FIELDS = [
+  'searchText',
+  'musicGenreNames',
+  'featureNames',
+  'archivedById',
+  'flaggedAt',
+  'flagReason',
+  'flagDismissedAt'
+] as const;
+
+type InternalVenueField = typeof INTERNAL_VENUE_FIELDS[number];
+
+// A venue as the API returns it
+export const toPublicVenue = <T extends object>(venue: T): Omit<T, InternalVenueField> => {
+  const publicVenue = { ...venue } as Record<string, unknown>;
+  INTERNAL_VENUE_FIELDS.forEach(field => delete publicVenue[field]);
+  return publicVenue as Omit<T, InternalVenueField>;
+};
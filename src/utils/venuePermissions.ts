@@ -0,0 +1,55 @@
+import { VenueStaffRole } from '@prisma/client';
+
+// Actions a venue membership can be allowed to perform at its venue
+export const VENUE_PERMISSIONS = [
+  'venue:update',
+  'deals:create',
+  'events:create',
+  'posts:create',
+  'stories:create',
+  'analytics:read',
+  'devices:manage',
+  'staff:manage'
+] as const;
+
+export type VenuePermission = typeof VENUE_PERMISSIONS[number];
+
+// Highest first
+export const VENUE_STAFF_ROLES: VenueStaffRole[] = ['OWNER', 'MANAGER', 'BARTENDER'];
+
+export const isHigherRole = (role: VenueStaffRole, than: VenueStaffRole): boolean =>
+  VENUE_STAFF_ROLES.indexOf(role) < VENUE_STAFF_ROLES.indexOf(than);
+
+// Default permissions for each staff role
+export const ROLE_PERMISSIONS: Record<VenueStaffRole, VenuePermission[]> = {
+  OWNER: [...VENUE_PERMISSIONS],
+  MANAGER: ['venue:update', 'deals:create', 'events:create', 'posts:create', 'stories:create', 'analytics:read', 'devices:manage'],
+  BARTENDER: ['posts:create', 'stories:create']
+};
+
+export const isVenuePermission = (value: string): value is VenuePermission =>
+  (VENUE_PERMISSIONS as readonly string[]).includes(value);
+
+type StaffGrant = { role: VenueStaffRole; permissions: string[] };
+
+export const effectivePermissions = (membership: StaffGrant): VenuePermission[] => {
+  const granted = new Set<VenuePermission>(ROLE_PERMISSIONS[membership.role]);
+  membership.permissions.filter(isVenuePermission).forEach(permission => granted.add(permission));
+  return VENUE_PERMISSIONS.filter(permission => granted.has(permission));
+};
+
+export const hasPermission = (
+  membership: StaffGrant | null | undefined,
+  permission: VenuePermission
+): boolean => membership ? effectivePermissions(membership).includes(permission) : false;
+
+// Whether a staff member may give someone a role and extra permissions. Only
+// owners hand out OWNER, and nobody grants a permission they don't hold.
+export const canGrant = (grantor: StaffGrant, grant: StaffGrant): boolean => {
+  if (grant.role === 'OWNER' && grantor.role !== 'OWNER') {
+    return false;
+  }
+
+  const held = effectivePermissions(grantor);
+  return effectivePermissions(grant).every(permission => held.includes(permission));
+};